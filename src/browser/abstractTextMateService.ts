@@ -2,20 +2,43 @@ import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
 
 import { onUnexpectedError } from '../support/utils/errors';
 import { Emitter, Event } from '../support/utils/event';
+import { runWhenIdle } from '../support/utils/async';
 import { equals as equalArray } from '../support/utils/arrays';
 import * as resources from '../support/utils/resources';
 
-import { LanguageId, StandardTokenType, FontStyle, ColorId, MetadataConsts } from '../support/encodedTokenAttributes';
-import { ITextMateService } from './textMate';
-import type { IGrammar, StackElement, IOnigLib, IRawTheme } from 'vscode-textmate';
-import { Disposable, IDisposable, dispose } from '../support/utils/lifecycle';
-import { IValidGrammarDefinition, IValidEmbeddedLanguagesMap, IValidTokenTypeMap } from '../common/TMScopeRegistry';
-import { missingTMGrammarErrorMessage, TMGrammarFactory } from '../common/TMGrammarFactory';
-import { TMTokenization } from '../common/TMTokenization';
-import { ColorThemeData } from '../support/colorThemeData';
-import { ITextMateThemingRule, IWorkbenchColorTheme } from '../support/workbenchThemeService';
-import { IExtensionManifest } from '../support/extensions';
-import { IExtensionValue, ITMSyntaxExtensionPoint } from '../common/TMGrammars';
+import { LanguageId } from '../support/encodedTokenAttributes';
+import { IColorThemeInfo, IGrammarRegistration, ITextMateService, ITextMateServiceOptions, ITokenizationTimeOutEvent } from './textMate';
+import type { IGrammar, IOnigLib, IRawTheme, IRawGrammar } from 'vscode-textmate';
+import type { WebAssemblyInstantiator } from 'vscode-oniguruma';
+import { Disposable, DisposableStore, IDisposable, dispose, toDisposable } from '../support/utils/lifecycle';
+import { IValidGrammarDefinition } from '../common/TMScopeRegistry';
+import { IGrammarLoadEvent, IGrammarLoadFailureEvent, IMissingScopeEvent, missingTMGrammarErrorMessage, TMGrammarFactory } from '../common/TMGrammarFactory';
+import { DEFAULT_MAX_TOKENIZATION_LINE_LENGTH, DEFAULT_TOKENIZATION_TIME_LIMIT, ITokenizationLineLimit, ITokenizationTimeOut, TMTokenization, TMTokenizationSupportWithLineLimit } from '../common/TMTokenization';
+import { parseLanguageConfiguration } from '../common/languageConfiguration';
+import { generateTokensCSSForColorMap, IColorizeToHtmlOptions, tokenizeToHtml } from '../common/textToHtmlTokenizer';
+import { ISemanticTokenClassification, ThemedDocumentSemanticTokensProvider } from './semanticTokens';
+import { ITokenStyle } from '../support/themeService';
+import { ColorThemeData, readExtensionColorThemes, toBuiltinTheme } from '../support/colorThemeData';
+import { IColorCustomizations, ITextMateThemingRule, ITokenColorCustomizations, IWorkbenchColorTheme } from '../support/workbenchThemeService';
+import { Color } from '../support/utils/color';
+import { IExtensionManifest, ILanguage } from '../support/extensions';
+import { localizeManifest } from '../support/extensionNls';
+import { asStringArray, IExtensionValue, ITMSyntaxExtensionPoint, toValidGrammarDefinition } from '../common/TMGrammars';
+import { ArchiveResourceLoader, FetchResourceLoader, IResourceLoader } from '../support/resourceLoader';
+import { ZipArchive } from '../support/utils/zip';
+import { ConsoleLogger, ILogger } from '../support/logger';
+
+/**
+ * At most this many milliseconds pass until the theme rules for new semantic token classifications are defined.
+ */
+const SEMANTIC_THEME_UPDATE_DELAY = 100;
+
+interface IExtensionEntry {
+	readonly location: monaco.Uri;
+	readonly manifest: IExtensionManifest;
+	readonly colorThemes: ColorThemeData[];
+	readonly disposables: DisposableStore;
+}
 
 export abstract class AbstractTextMateService extends Disposable implements ITextMateService {
 	public _serviceBrand: undefined;
@@ -23,7 +46,29 @@ export abstract class AbstractTextMateService extends Disposable implements ITex
 	private readonly _onDidEncounterLanguage: Emitter<string> = this._register(new Emitter<string>());
 	public readonly onDidEncounterLanguage: Event<string> = this._onDidEncounterLanguage.event;
 
+	private readonly _onDidColorThemeChange: Emitter<IWorkbenchColorTheme> = this._register(new Emitter<IWorkbenchColorTheme>());
+	public readonly onDidColorThemeChange: Event<IWorkbenchColorTheme> = this._onDidColorThemeChange.event;
+
+	private readonly _onDidTimeOutTokenizing: Emitter<ITokenizationTimeOutEvent> = this._register(new Emitter<ITokenizationTimeOutEvent>());
+	public readonly onDidTimeOutTokenizing: Event<ITokenizationTimeOutEvent> = this._onDidTimeOutTokenizing.event;
+
+	private readonly _onDidLoadGrammar: Emitter<IGrammarLoadEvent> = this._register(new Emitter<IGrammarLoadEvent>());
+	public readonly onDidLoadGrammar: Event<IGrammarLoadEvent> = this._onDidLoadGrammar.event;
+
+	private readonly _onDidFailToLoadGrammar: Emitter<IGrammarLoadFailureEvent> = this._register(new Emitter<IGrammarLoadFailureEvent>());
+	public readonly onDidFailToLoadGrammar: Event<IGrammarLoadFailureEvent> = this._onDidFailToLoadGrammar.event;
+
+	private readonly _onDidMissScope: Emitter<IMissingScopeEvent> = this._register(new Emitter<IMissingScopeEvent>());
+	public readonly onDidMissScope: Event<IMissingScopeEvent> = this._onDidMissScope.event;
+
 	private readonly _encounteredLanguages: boolean[];
+	protected readonly _resourceLoader: IResourceLoader;
+	private readonly _archiveResourceLoader: ArchiveResourceLoader;
+	protected readonly _logger: ILogger;
+	private readonly _maxTokenizationLineLength: number | { [languageId: string]: number };
+	private readonly _partialLongLineTokenization: boolean;
+	protected readonly _tokenizationTimeLimit: number;
+	private readonly _locale: string | undefined;
 
 	private _grammarDefinitions: IValidGrammarDefinition[] | null;
 	private _grammarFactory: TMGrammarFactory | null;
@@ -33,12 +78,28 @@ export abstract class AbstractTextMateService extends Disposable implements ITex
 
 	private _languages: IExtensionValue<ITMSyntaxExtensionPoint[]>[][] = [];
 	private _languageNames: string[] = [];
-  private _colorTheme: ColorThemeData | null = null;
+	private _colorTheme: ColorThemeData | null = null;
+	private _colorThemeRequest: number = 0;
+	private _extensions: IExtensionEntry[] = [];
+	private _grammarRegistrations: IGrammarRegistration[] = [];
+	private readonly _tokenizedLanguages = new Set<string>();
+	private readonly _tmTokenizations = new Set<TMTokenization>();
+	private _colorCustomizations: IColorCustomizations = {};
+	private _tokenColorCustomizations: ITokenColorCustomizations = {};
+	private readonly _semanticTokenClassifications = new Map<string, ISemanticTokenClassification>();
+	private _semanticThemeUpdate: IDisposable | null = null;
+	private _archiveCount = 0;
 	
-	constructor() {
+	constructor(options: ITextMateServiceOptions = {}) {
 		super();
 
 		this._encounteredLanguages = [];
+		this._resourceLoader = this._archiveResourceLoader = new ArchiveResourceLoader(options.resourceLoader ?? new FetchResourceLoader());
+		this._logger = options.logger ?? new ConsoleLogger();
+		this._maxTokenizationLineLength = options.maxTokenizationLineLength ?? DEFAULT_MAX_TOKENIZATION_LINE_LENGTH;
+		this._partialLongLineTokenization = !!options.partialLongLineTokenization;
+		this._tokenizationTimeLimit = options.tokenizationTimeLimit ?? DEFAULT_TOKENIZATION_TIME_LIMIT;
+		this._locale = options.locale;
 
 		this._grammarDefinitions = null;
 		this._grammarFactory = null;
@@ -50,120 +111,299 @@ export abstract class AbstractTextMateService extends Disposable implements ITex
 		this._tokenizersRegistrations = dispose(this._tokenizersRegistrations);
 	}
 
-	async init(extensions: string[],) {
+	public override dispose(): void {
+		this._tokenizersRegistrations = dispose(this._tokenizersRegistrations);
+		this._disposeTokenizations();
+		this._semanticThemeUpdate?.dispose();
+		this._extensions.forEach(entry => entry.disposables.dispose());
+		super.dispose();
+	}
+
+	/**
+	 * Adds the extensions at the given locations. An extension is either a directory containing its
+	 * `package.json` or a `.vsix` package, given by its URL or its content.
+	 */
+	async init(extensions: (string | ArrayBuffer)[]) {
+		const entries = await Promise.all(extensions.map(extension => this._readExtension(extension)));
+		this._extensions.push(...entries);
+		await Promise.all(entries.map(entry => this._registerLanguages(entry)));
+		this._updateGrammarDefinitions();
+	}
+
+	/**
+	 * Adds the languages, grammars and themes of the extension at the given location, or of the
+	 * given `.vsix` package. All grammars are reloaded and all models tokenized by the service are
+	 * retokenized, as grammars can embed or inject into the languages of other extensions. Returns
+	 * the location to pass to `removeExtension`.
+	 */
+	async addExtension(extension: string | ArrayBuffer): Promise<string> {
+		if (typeof extension === 'string') {
+			const existing = this._findExtension(toExtensionLocation(extension));
+			if (existing) {
+				return existing.location.toString();
+			}
+		}
+		const entry = await this._readExtension(extension);
+		const existing = this._findExtension(entry.location);
+		if (existing) {
+			entry.disposables.dispose();
+			return existing.location.toString();
+		}
+		this._extensions.push(entry);
+		await this._registerLanguages(entry);
+		this._updateGrammarDefinitions();
+		return entry.location.toString();
+	}
+
+	/**
+	 * Removes the grammars, themes and language configurations of the extension at the given
+	 * location and retokenizes the models like `addExtension`. Languages stay registered with
+	 * Monaco, which cannot unregister them. A color theme of the extension that is already active
+	 * stays active until another theme is set, but is no longer available by its id.
+	 */
+	removeExtension(location: string): void {
+		const entry = this._findExtension(toExtensionLocation(location));
+		if (!entry) {
+			return;
+		}
+		this._extensions.splice(this._extensions.indexOf(entry), 1);
+		entry.disposables.dispose();
+		this._updateGrammarDefinitions();
+	}
+
+	public registerGrammar(grammar: IGrammarRegistration): IDisposable {
+		if (!grammar.content && !grammar.location) {
+			throw new Error(`Grammar ${grammar.scopeName} needs either a content or a location.`);
+		}
+		if (grammar.language && !monaco.languages.getLanguages().some(language => language.id === grammar.language)) {
+			monaco.languages.register({ id: grammar.language });
+		}
+		this._grammarRegistrations.push(grammar);
+		this._updateGrammarDefinitions();
+		return toDisposable(() => {
+			const index = this._grammarRegistrations.indexOf(grammar);
+			if (index !== -1) {
+				this._grammarRegistrations.splice(index, 1);
+				this._updateGrammarDefinitions();
+			}
+		});
+	}
+
+	private _findExtension(location: monaco.Uri): IExtensionEntry | undefined {
+		return this._extensions.find(entry => resources.isEqual(entry.location, location));
+	}
+
+	private async _readExtension(extension: string | ArrayBuffer): Promise<IExtensionEntry> {
+		const disposables = new DisposableStore();
+		try {
+			let extensionLocation: monaco.Uri;
+			if (typeof extension === 'string' && !isArchiveLocation(extension)) {
+				extensionLocation = monaco.Uri.parse(extension);
+			} else {
+				// Packages given by their content get a location of their own
+				const archiveLocation = typeof extension === 'string' ? monaco.Uri.parse(extension) : monaco.Uri.from({ scheme: ARCHIVE_SCHEME, authority: String(++this._archiveCount), path: '/' });
+				const content = typeof extension === 'string' ? await this._resourceLoader.readBinary(archiveLocation) : extension;
+				disposables.add(this._archiveResourceLoader.addArchive(archiveLocation, new ZipArchive(new Uint8Array(content))));
+				extensionLocation = resources.joinPath(archiveLocation, VSIX_EXTENSION_FOLDER);
+			}
+			const manifest: IExtensionManifest = JSON.parse(await this._resourceLoader.readFile(resources.joinPath(extensionLocation, 'package.json')));
+			await localizeManifest(manifest, extensionLocation, this._resourceLoader, this._locale, this._logger);
+			return {
+				location: extensionLocation,
+				manifest,
+				colorThemes: readExtensionColorThemes(extensionLocation, manifest, this._logger),
+				disposables
+			};
+		} catch (err) {
+			disposables.dispose();
+			throw err;
+		}
+	}
+
+	private _updateGrammarDefinitions(): void {
 		this._grammarDefinitions = [];
 
-		const manifests: { location: string; manifest: IExtensionManifest; }[] = await Promise.all(
-			extensions.map(async location => {
-				const manifest = await fetch(resources.joinPath(monaco.Uri.parse(location), 'package.json').path).then(res => res.json());
-				return { location, manifest };
-			})
-		);
-		
-		this._languages = manifests.reduce((acc, entry) => {
-			acc = [
-				...acc,
-				[
-					{
-						extensionLocation: monaco.Uri.parse(entry.location),
-						value: (entry.manifest.contributes?.grammars || []) as ITMSyntaxExtensionPoint[]
-					}
-				]
-			]
-			return acc;
-		}, [] as IExtensionValue<ITMSyntaxExtensionPoint[]>[][]);
-		
+		this._languages = this._extensions.map(entry => [
+			{
+				extensionLocation: entry.location,
+				value: (entry.manifest.contributes?.grammars || []) as ITMSyntaxExtensionPoint[]
+			}
+		]);
+
 		this._languageNames = this._languages.reduce((acc, x) => {
 			x.forEach(x => x.value.forEach(x => x.language && acc.push(x.language)));
 			return acc;
 		}, [] as string[]);
+		for (const entry of this._extensions) {
+			for (const language of entry.manifest.contributes?.languages || []) {
+				if (isValidLanguage(language) && !this._languageNames.includes(language.id)) {
+					this._languageNames.push(language.id);
+				}
+			}
+		}
+		for (const registration of this._grammarRegistrations) {
+			if (registration.language && !this._languageNames.includes(registration.language)) {
+				this._languageNames.push(registration.language);
+			}
+		}
+
+		if (this._grammarFactory) {
+			this._grammarFactory.dispose();
+			this._grammarFactory = null;
+			this._onDidDisposeGrammarFactory();
+		}
+
+		// Disposing a tokens provider factory makes Monaco drop the tokens of the language's models
+		this._tokenizersRegistrations = dispose(this._tokenizersRegistrations);
+		this._disposeTokenizations();
 
 		for (const extensions of this._languages) {
 			for (const extension of extensions) {
 				const grammars = extension.value;
 				for (const grammar of grammars) {
-					const grammarLocation = resources.joinPath(extension.extensionLocation, grammar.path);
-
-					const embeddedLanguages: IValidEmbeddedLanguagesMap = Object.create(null);
-					if (grammar.embeddedLanguages) {
-						let scopes = Object.keys(grammar.embeddedLanguages);
-						for (let i = 0, len = scopes.length; i < len; i++) {
-							let scope = scopes[i];
-							let language = grammar.embeddedLanguages[scope];
-							if (typeof language !== 'string') {
-								// never hurts to be too careful
-								continue;
-							}
-							if (this._languageNames.includes(language)) {
-								embeddedLanguages[scope] = monaco.languages.getEncodedLanguageId(language);
-							}
-						}
-					}
+					this._registerGrammarDefinition(grammar, resources.joinPath(extension.extensionLocation, grammar.path));
+				}
+			}
+		}
+		for (const registration of this._grammarRegistrations) {
+			const location = typeof registration.location === 'string' ? monaco.Uri.parse(registration.location) : registration.location;
+			if (location) {
+				this._registerGrammarDefinition(registration, location);
+			} else if (registration.content) {
+				this._registerGrammarDefinition(registration, toInMemoryGrammarLocation(registration.scopeName, registration.content), registration.content);
+			}
+		}
 
-					const tokenTypes: IValidTokenTypeMap = Object.create(null);
-					if (grammar.tokenTypes) {
-						const scopes = Object.keys(grammar.tokenTypes);
-						for (const scope of scopes) {
-							const tokenType = grammar.tokenTypes[scope];
-							switch (tokenType) {
-								case 'string':
-									tokenTypes[scope] = StandardTokenType.String;
-									break;
-								case 'other':
-									tokenTypes[scope] = StandardTokenType.Other;
-									break;
-								case 'comment':
-									tokenTypes[scope] = StandardTokenType.Comment;
-									break;
-							}
-						}
-					}
+		// Monaco only resolves a tokens provider factory the first time it encounters a language,
+		// so resolve the new ones for the languages that are already in use
+		const languagesInUse = new Set(this._tokenizedLanguages);
+		monaco.editor.getModels().forEach(model => languagesInUse.add(model.getLanguageId()));
+		for (const languageId of languagesInUse) {
+			monaco.editor.tokenize('', languageId);
+		}
+	}
 
-					let validLanguageId: string | null = null;
-					if (grammar.language && this._languageNames.includes(grammar.language)) {
-						validLanguageId = grammar.language;
-					}
+	private _registerGrammarDefinition(grammar: Omit<ITMSyntaxExtensionPoint, 'path'>, location: monaco.Uri, content?: string | IRawGrammar): void {
+		const grammarDefinition = toValidGrammarDefinition(grammar, location, content, this._languageNames, languageId => monaco.languages.getEncodedLanguageId(languageId));
+		this._grammarDefinitions!.push(grammarDefinition);
 
-					function asStringArray(array: unknown, defaultValue: string[]): string[] {
-						if (!Array.isArray(array)) {
-							return defaultValue;
-						}
-						if (!array.every(e => typeof e === 'string')) {
-							return defaultValue;
-						}
-						return array;
-					}
+		if (grammarDefinition.language) {
+			this._tokenizersRegistrations.push(monaco.languages.registerTokensProviderFactory(grammarDefinition.language, this._createFactory(grammarDefinition.language)));
+		}
+	}
 
-					this._grammarDefinitions!.push({
-						location: grammarLocation,
-						language: validLanguageId ? validLanguageId : undefined,
-						scopeName: grammar.scopeName,
-						embeddedLanguages: embeddedLanguages,
-						tokenTypes: tokenTypes,
-						injectTo: grammar.injectTo,
-						balancedBracketSelectors: asStringArray(grammar.balancedBracketScopes, ['*']),
-						unbalancedBracketSelectors: asStringArray(grammar.unbalancedBracketScopes, []),
-					});
+	private async _registerLanguages(entry: IExtensionEntry): Promise<void> {
+		const configurations: Promise<void>[] = [];
+		for (const language of entry.manifest.contributes?.languages || []) {
+			if (!isValidLanguage(language)) {
+				continue;
+			}
+			monaco.languages.register({
+				id: language.id,
+				extensions: asStringArray(language.extensions, []),
+				filenames: asStringArray(language.filenames, []),
+				filenamePatterns: asStringArray(language.filenamePatterns, []),
+				firstLine: typeof language.firstLine === 'string' ? language.firstLine : undefined,
+				aliases: asStringArray(language.aliases, []),
+				mimetypes: asStringArray(language.mimetypes, []),
+			});
+			if (typeof language.configuration === 'string') {
+				configurations.push(this._loadLanguageConfiguration(entry, language.id, resources.joinPath(entry.location, language.configuration)));
+			}
+		}
+		await Promise.all(configurations);
+	}
 
-					if (validLanguageId) {
-						monaco.languages.registerTokensProviderFactory(validLanguageId, this._createFactory(validLanguageId));
-					}
-				}
+	private async _loadLanguageConfiguration(entry: IExtensionEntry, languageId: string, location: monaco.Uri): Promise<void> {
+		try {
+			const content = await this._resourceLoader.readFile(location);
+			const configuration = parseLanguageConfiguration(languageId, location, content, this._logger);
+			if (this._findExtension(entry.location) !== entry) {
+				// The extension was removed in the meantime
+				return;
 			}
+			entry.disposables.add(monaco.languages.setLanguageConfiguration(languageId, configuration));
+		} catch (err) {
+			onUnexpectedError(err);
+		}
+	}
+
+	private _getColorThemes(): ColorThemeData[] {
+		return this._extensions.flatMap(entry => entry.colorThemes);
+	}
+
+	public getAvailableThemes(): IColorThemeInfo[] {
+		return this._getColorThemes().map(theme => ({
+			id: theme.id,
+			label: theme.label,
+			uiTheme: theme.baseTheme,
+			description: theme.description
+		}));
+	}
+
+	async setThemeById(id: string): Promise<void> {
+		const colorTheme = this._getColorThemes().find(theme => theme.id === id);
+		if (!colorTheme) {
+			throw new Error(`Unknown color theme: ${id}`);
 		}
+		await this._setColorTheme(colorTheme);
 	}
 
-	async setTheme(baseTheme: string, theme: string) {
-    this._colorTheme = ColorThemeData.createUnloadedTheme(
-      baseTheme,
-      monaco.Uri.parse(theme)
-    );
-    await this._colorTheme.ensureLoaded();
+	/**
+	 * Sets the theme file at the given location. The `name` in the file is the theme's label, which
+	 * `[Theme Name]` sections of the customizations match.
+	 */
+	async setTheme(baseTheme: string, theme: string): Promise<void> {
+		const colorTheme = ColorThemeData.createUnloadedTheme(
+			baseTheme,
+			monaco.Uri.parse(theme)
+		);
+		await this._setColorTheme(colorTheme);
+	}
+
+	private async _setColorTheme(colorTheme: ColorThemeData): Promise<void> {
+		const request = ++this._colorThemeRequest;
+		// Load the new theme before switching, the current one stays active meanwhile
+		await colorTheme.ensureLoaded(this._resourceLoader, this._logger);
+		if (request !== this._colorThemeRequest) {
+			// A later call to setTheme superseded this one
+			return;
+		}
 
-		this._updateTheme(this._grammarFactory, this._colorTheme, true);
-		// this._register(this._themeService.onDidColorThemeChange(() => {
-		// 	this._updateTheme(this._grammarFactory, this._colorTheme, false);
-		// }));
+		this._colorTheme = colorTheme;
+		colorTheme.setCustomColors(this._colorCustomizations);
+		colorTheme.setCustomTokenColors(this._tokenColorCustomizations);
+		this._updateTheme(this._grammarFactory, colorTheme, true);
+		this._onDidColorThemeChange.fire(colorTheme);
+	}
+
+	public getColorTheme(): IWorkbenchColorTheme | null {
+		return this._colorTheme;
+	}
+
+	public setColorCustomizations(customizations: IColorCustomizations): void {
+		this._colorCustomizations = customizations;
+		if (!this._colorTheme) {
+			return;
+		}
+		this._colorTheme.setCustomColors(customizations);
+		this._onDidChangeCustomizations(this._colorTheme);
+	}
+
+	public setTokenColorCustomizations(customizations: ITokenColorCustomizations): void {
+		this._tokenColorCustomizations = customizations;
+		if (!this._colorTheme) {
+			return;
+		}
+		this._colorTheme.setCustomTokenColors(customizations);
+		this._onDidChangeCustomizations(this._colorTheme);
+	}
+
+	private _onDidChangeCustomizations(colorTheme: ColorThemeData): void {
+		this._updateTheme(this._grammarFactory, colorTheme, false);
+		// The workbench colors and semantic token rules are not part of the TextMate theme, always redefine the Monaco theme
+		this._defineMonacoTheme(colorTheme);
+		this._onDidColorThemeChange.fire(colorTheme);
 	}
 
 	private _canCreateGrammarFactory(): boolean {
@@ -188,13 +428,18 @@ export abstract class AbstractTextMateService extends Disposable implements ITex
 		}
 
 		this._grammarFactory = new TMGrammarFactory({
-			logTrace: (msg: string) => void 0,
-			logError: (msg: string, err: any) => console.error(msg, err),
-			readFile: (resource: monaco.Uri) => fetch(resource.path).then(r => r.text())
+			logTrace: (msg: string) => this._logger.trace(msg),
+			logError: (msg: string, err: any) => this._logger.error(msg, err),
+			readFile: (resource: monaco.Uri) => this._resourceLoader.readFile(resource),
+			onDidLoadGrammar: e => this._onDidLoadGrammar.fire(e),
+			onDidFailToLoadGrammar: e => this._onDidFailToLoadGrammar.fire(e),
+			onDidMissScope: e => this._onDidMissScope.fire(e)
 		}, this._grammarDefinitions || [], vscodeTextmate, onigLib);
 		this._onDidCreateGrammarFactory(this._grammarDefinitions || []);
 
-		this._updateTheme(this._grammarFactory, this._colorTheme!, true);
+		if (this._colorTheme) {
+			this._updateTheme(this._grammarFactory, this._colorTheme, true);
+		}
 
 		return this._grammarFactory;
 	}
@@ -219,7 +464,10 @@ export abstract class AbstractTextMateService extends Disposable implements ITex
 					if (!r.grammar) {
 						return null;
 					}
-					const tokenization = new TMTokenization(r.grammar, r.initialState, r.containsEmbeddedLanguages);
+					this._tokenizedLanguages.add(languageId);
+					const tokenization = new TMTokenization(r.grammar, r.initialState, r.containsEmbeddedLanguages, this._tokenizationTimeLimit);
+					this._tmTokenizations.add(tokenization);
+					tokenization.onDidTimeOut(timeOut => this._onTokenizationTimeOut(languageId, r.scopeName, timeOut));
 					tokenization.onDidEncounterLanguage((encodedLanguageId) => {
 						if (!this._encounteredLanguages[encodedLanguageId]) {
 							const languageId = this._languageNames.find(name => monaco.languages.getEncodedLanguageId(name) === encodedLanguageId)!;
@@ -227,7 +475,17 @@ export abstract class AbstractTextMateService extends Disposable implements ITex
 							this._onDidEncounterLanguage.fire(languageId);
 						}
 					});
-					return new TMTokenizationSupportWithLineLimit(encodedLanguageId, tokenization);
+					const tokenizationSupport = this._createTokenizationSupport(languageId, encodedLanguageId, tokenization);
+					if (tokenizationSupport) {
+						const registrations = this._tokenizersRegistrations;
+						tokenization.onDidRecover(() => {
+							// Skip providers replaced since
+							if (registrations === this._tokenizersRegistrations) {
+								this._retokenizeModels(languageId, tokenizationSupport);
+							}
+						});
+					}
+					return tokenizationSupport;
 				} catch (err: any) {
 					if (err.message && err.message === missingTMGrammarErrorMessage) {
 						// Don't log this error message
@@ -240,6 +498,35 @@ export abstract class AbstractTextMateService extends Disposable implements ITex
 		};
 	}
 
+	protected _onTokenizationTimeOut(languageId: string, scopeName: string, timeOut: ITokenizationTimeOut): void {
+		this._logger.warn(`Time limit reached when tokenizing line: ${timeOut.line.substring(0, 100)}`);
+		// Lines over the length limit may be cut before they are tokenized
+		const maxLineLength = this._getTokenizationLineLimit(languageId).maxLineLength;
+		let locations: ITokenizationTimeOutEvent['locations'] | undefined;
+		this._onDidTimeOutTokenizing.fire({
+			languageId,
+			scopeName,
+			line: timeOut.line,
+			// Searching the models is expensive, so only done for listeners that read the locations
+			get locations() {
+				return locations ??= findLineLocations(languageId, timeOut.line, timeOut.line.length >= maxLineLength);
+			},
+			timeLimit: timeOut.timeLimit,
+			isRetry: timeOut.isRetry
+		});
+	}
+
+	private _disposeTokenizations(): void {
+		dispose(this._tmTokenizations.values());
+		this._tmTokenizations.clear();
+	}
+
+	private _retokenizeModels(languageId: string, tokenizationSupport: monaco.languages.EncodedTokensProvider): void {
+		// Setting the provider again makes Monaco tokenize the models of the language again. The
+		// registration is disposed with the provider factories
+		this._tokenizersRegistrations.push(monaco.languages.setTokensProvider(languageId, tokenizationSupport));
+	}
+
 	private _updateTheme(grammarFactory: TMGrammarFactory | null, colorTheme: IWorkbenchColorTheme, forceUpdate: boolean): void {
 		if (!forceUpdate && this._currentTheme && this._currentTokenColorMap && AbstractTextMateService.equalsTokenRules(this._currentTheme.settings, colorTheme.tokenColors) && equalArray(this._currentTokenColorMap, colorTheme.tokenColorMap)) {
 			return;
@@ -247,12 +534,77 @@ export abstract class AbstractTextMateService extends Disposable implements ITex
 		this._currentTheme = { name: colorTheme.label, settings: colorTheme.tokenColors };
 		this._currentTokenColorMap = colorTheme.tokenColorMap;
 		this._doUpdateTheme(grammarFactory, this._currentTheme, this._currentTokenColorMap);
-		monaco.editor.setTheme(colorTheme.baseTheme);
+		this._defineMonacoTheme(colorTheme);
+	}
+
+	private static readonly themeName = 'vscode-textmate-theme';
+
+	private _defineMonacoTheme(colorTheme: IWorkbenchColorTheme): void {
+		monaco.editor.defineTheme(AbstractTextMateService.themeName, this._toStandaloneThemeData(colorTheme));
+		monaco.editor.setTheme(AbstractTextMateService.themeName);
+	}
+
+	private _toStandaloneThemeData(colorTheme: IWorkbenchColorTheme): monaco.editor.IStandaloneThemeData {
+		const colors: monaco.editor.IColors = {};
+		const themeColors = colorTheme.getColors();
+		for (const colorId in themeColors) {
+			colors[colorId] = Color.Format.CSS.formatHexA(themeColors[colorId], true);
+		}
+		const tokenColorMap = colorTheme.tokenColorMap;
+		const rules: monaco.editor.ITokenThemeRule[] = [];
+		for (const classification of this._semanticTokenClassifications.values()) {
+			const style = colorTheme.getTokenStyleMetadata(classification.type, classification.modifiers, classification.languageId);
+			if (style) {
+				const rule = toTokenThemeRule(classification.token, style, tokenColorMap);
+				if (rule) {
+					rules.push(rule);
+				}
+			}
+		}
+		return {
+			base: toBuiltinTheme(colorTheme.baseTheme),
+			inherit: true,
+			rules,
+			// keep the TextMate color ids when Monaco applies the theme, color id 0 is not part of the map
+			encodedTokensColors: tokenColorMap.slice(1),
+			colors
+		};
+	}
+
+	/**
+	 * Registers a semantic tokens provider whose tokens are styled by the semantic token rules of the
+	 * loaded theme, falling back to the theme's TextMate rules.
+	 */
+	public registerDocumentSemanticTokensProvider(languageSelector: monaco.languages.LanguageSelector, provider: monaco.languages.DocumentSemanticTokensProvider): IDisposable {
+		const themedProvider = new ThemedDocumentSemanticTokensProvider(provider, classifications => this._onDidEncounterSemanticTokens(classifications));
+		return monaco.languages.registerDocumentSemanticTokensProvider(languageSelector, themedProvider);
+	}
+
+	private _onDidEncounterSemanticTokens(classifications: ISemanticTokenClassification[]): void {
+		let changed = false;
+		for (const classification of classifications) {
+			if (!this._semanticTokenClassifications.has(classification.token)) {
+				this._semanticTokenClassifications.set(classification.token, classification);
+				changed = true;
+			}
+		}
+		if (changed && !this._semanticThemeUpdate) {
+			// Redefining the theme makes Monaco request all semantic tokens again, so the new
+			// classifications of all providers are added at once
+			this._semanticThemeUpdate = runWhenIdle(() => {
+				this._semanticThemeUpdate = null;
+				if (this._colorTheme) {
+					this._defineMonacoTheme(this._colorTheme);
+				}
+			}, SEMANTIC_THEME_UPDATE_DELAY);
+		}
 	}
 
 	protected _doUpdateTheme(grammarFactory: TMGrammarFactory | null, theme: IRawTheme, tokenColorMap: string[]): void {
 		grammarFactory?.setTheme(theme, tokenColorMap);
-		monaco.languages.setColorMap(tokenColorMap)
+		this._tmTokenizations.forEach(tokenization => tokenization.clearRecoveredLines());
+		// Setting the color map makes Monaco retokenize all models, using the grammars' new theme
+		monaco.languages.setColorMap(tokenColorMap);
 	}
 
 	private static equalsTokenRules(a: ITextMateThemingRule[] | null, b: ITextMateThemingRule[] | null): boolean {
@@ -291,6 +643,34 @@ export abstract class AbstractTextMateService extends Disposable implements ITex
 		return grammar;
 	}
 
+	public async colorizeToHtml(code: string, languageId: string, options?: IColorizeToHtmlOptions): Promise<string> {
+		const grammar = await this.createGrammar(languageId);
+		return tokenizeToHtml(code, grammar, this._getTokenColorMap(), options);
+	}
+
+	public getTokenColorsCss(): string {
+		return generateTokensCSSForColorMap(this._getTokenColorMap());
+	}
+
+	private _getTokenColorMap(): string[] {
+		return this._currentTokenColorMap ?? this._grammarFactory?.getColorMap() ?? [];
+	}
+
+	/**
+	 * Returns the tokens provider registered with Monaco, or null if the language is tokenized elsewhere.
+	 */
+	protected _createTokenizationSupport(languageId: string, encodedLanguageId: LanguageId, tokenization: TMTokenization): monaco.languages.EncodedTokensProvider | null {
+		return new TMTokenizationSupportWithLineLimit(encodedLanguageId, tokenization, this._getTokenizationLineLimit(languageId));
+	}
+
+	protected _getTokenizationLineLimit(languageId: string): ITokenizationLineLimit {
+		const maxLineLength = typeof this._maxTokenizationLineLength === 'number' ? this._maxTokenizationLineLength : this._maxTokenizationLineLength[languageId];
+		return {
+			maxLineLength: maxLineLength ?? DEFAULT_MAX_TOKENIZATION_LINE_LENGTH,
+			partial: this._partialLongLineTokenization
+		};
+	}
+
 	protected _onDidCreateGrammarFactory(grammarDefinitions: IValidGrammarDefinition[]): void {
 	}
 
@@ -308,74 +688,116 @@ export abstract class AbstractTextMateService extends Disposable implements ITex
 	private async _doGetVSCodeOniguruma(): Promise<typeof import('vscode-oniguruma')> {
 		const [vscodeOniguruma, wasm] = await Promise.all([import('vscode-oniguruma'), this._loadVSCodeOnigurumWASM()]);
 		const options = {
-			data: wasm,
+			instantiator: createWASMInstantiator(wasm, this._logger),
 			print: (str: string) => {
-				console.log(str);
+				this._logger.info(str);
 			}
 		};
 		await vscodeOniguruma.loadWASM(options);
 		return vscodeOniguruma;
 	}
 
-	protected abstract _loadVSCodeOnigurumWASM(): Promise<Response | ArrayBuffer>;
+	protected abstract _loadVSCodeOnigurumWASM(): Promise<Response | ArrayBuffer | WebAssembly.Module>;
 }
 
-interface IState {
-	clone(): IState;
-	equals(other: IState): boolean;
+function createWASMInstantiator(wasm: Response | ArrayBuffer | WebAssembly.Module, logger: ILogger): WebAssemblyInstantiator {
+	if (wasm instanceof WebAssembly.Module) {
+		return async imports => ({ module: wasm, instance: await WebAssembly.instantiate(wasm, imports) });
+	}
+	if (wasm instanceof ArrayBuffer) {
+		return imports => WebAssembly.instantiate(wasm, imports);
+	}
+	return async imports => {
+		// Streaming compilation only works if the server sets the MIME type 'application/wasm'.
+		// Otherwise, a TypeError is thrown and we fall back to the non-streaming compiler.
+		const contentType = wasm.headers.get('Content-Type');
+		if (typeof WebAssembly.instantiateStreaming === 'function' && contentType && contentType.startsWith('application/wasm')) {
+			const fallback = wasm.clone();
+			try {
+				return await WebAssembly.instantiateStreaming(wasm, imports);
+			} catch (err) {
+				logger.warn('Streaming compilation of the Oniguruma WASM failed, falling back to ArrayBuffer instantiation.', err);
+				return WebAssembly.instantiate(await fallback.arrayBuffer(), imports);
+			}
+		}
+		return WebAssembly.instantiate(await wasm.arrayBuffer(), imports);
+	};
 }
 
-const NullState: IState = new class implements IState {
-	public clone(): IState {
-		return this;
+function toTokenThemeRule(token: string, style: ITokenStyle, tokenColorMap: string[]): monaco.editor.ITokenThemeRule | undefined {
+	const rule: monaco.editor.ITokenThemeRule = { token };
+	if (style.foreground) {
+		rule.foreground = tokenColorMap[style.foreground];
 	}
-	public equals(other: IState): boolean {
-		return (this === other);
+	if (style.bold !== undefined || style.italic !== undefined || style.underline !== undefined || style.strikethrough !== undefined) {
+		const fontStyles: string[] = [];
+		if (style.italic) {
+			fontStyles.push('italic');
+		}
+		if (style.bold) {
+			fontStyles.push('bold');
+		}
+		if (style.underline) {
+			fontStyles.push('underline');
+		}
+		if (style.strikethrough) {
+			fontStyles.push('strikethrough');
+		}
+		rule.fontStyle = fontStyles.join(' ');
 	}
-};
-
-export function nullTokenizeEncoded(languageId: LanguageId, state: StackElement): monaco.languages.IEncodedLineTokens {
-	const tokens = new Uint32Array(2);
-	tokens[0] = 0;
-	tokens[1] = (
-		(languageId << MetadataConsts.LANGUAGEID_OFFSET)
-		| (StandardTokenType.Other << MetadataConsts.TOKEN_TYPE_OFFSET)
-		| (FontStyle.None << MetadataConsts.FONT_STYLE_OFFSET)
-		| (ColorId.DefaultForeground << MetadataConsts.FOREGROUND_OFFSET)
-		| (ColorId.DefaultBackground << MetadataConsts.BACKGROUND_OFFSET)
-	) >>> 0;
+	return (rule.foreground || rule.fontStyle !== undefined) ? rule : undefined;
+}
 
-	return { tokens, endState: state === null ? NullState : state };
+/**
+ * Finds the line in the models of the language, or the lines starting with it if it is a prefix.
+ */
+function findLineLocations(languageId: string, line: string, isPrefix: boolean): ITokenizationTimeOutEvent['locations'] {
+	const locations: ITokenizationTimeOutEvent['locations'] = [];
+	for (const model of monaco.editor.getModels()) {
+		if (model.getLanguageId() !== languageId) {
+			continue;
+		}
+		for (let lineNumber = 1, lineCount = model.getLineCount(); lineNumber <= lineCount; lineNumber++) {
+			if (model.getLineLength(lineNumber) < line.length) {
+				continue;
+			}
+			const content = model.getLineContent(lineNumber);
+			if (content === line || (isPrefix && content.startsWith(line))) {
+				locations.push({ uri: model.uri, lineNumber });
+			}
+		}
+	}
+	return locations;
 }
 
-class TMTokenizationSupportWithLineLimit implements monaco.languages.EncodedTokensProvider {
-	private readonly _encodedLanguageId: LanguageId;
-	private readonly _actual: TMTokenization;
-	private _maxTokenizationLineLength: number;
+/**
+ * The location reported for grammars registered by content. Its extension tells vscode-textmate how
+ * to parse the content.
+ */
+function toInMemoryGrammarLocation(scopeName: string, content: string | IRawGrammar): monaco.Uri {
+	const isJSON = typeof content !== 'string' || content.trimStart().startsWith('{');
+	return monaco.Uri.from({ scheme: 'inmemory', path: `/${scopeName}${isJSON ? '.tmLanguage.json' : '.tmLanguage'}` });
+}
 
-	constructor(
-		encodedLanguageId: LanguageId,
-		actual: TMTokenization,
-	) {
-		this._encodedLanguageId = encodedLanguageId;
-		this._actual = actual;
-		this._maxTokenizationLineLength = 2000;
-	}
+const ARCHIVE_SCHEME = 'vsix';
 
-	getInitialState(): monaco.languages.IState {
-		return this._actual.getInitialState();
-	}
+/**
+ * The folder of a `.vsix` package that contains the extension.
+ */
+const VSIX_EXTENSION_FOLDER = 'extension';
 
-	tokenize(line: string, state: monaco.languages.IState): monaco.languages.ILineTokens {
-		throw new Error('Not supported!');
-	}
+function isArchiveLocation(location: string): boolean {
+	return /\.vsix$/i.test(monaco.Uri.parse(location).path);
+}
 
-	tokenizeEncoded(line: string, state: StackElement): monaco.languages.IEncodedLineTokens {
-		// Do not attempt to tokenize if a line is too long
-		if (line.length >= this._maxTokenizationLineLength) {
-			return nullTokenizeEncoded(this._encodedLanguageId, state);
-		}
+/**
+ * The location of the extension in a `.vsix` package, or the location itself for extension folders.
+ */
+function toExtensionLocation(location: string): monaco.Uri {
+	const uri = monaco.Uri.parse(location);
+	return isArchiveLocation(location) ? resources.joinPath(uri, VSIX_EXTENSION_FOLDER) : uri;
+}
 
-		return this._actual.tokenizeEncoded(line, state);
-	}
+function isValidLanguage(language: ILanguage | undefined): language is ILanguage {
+	return !!language && typeof language.id === 'string' && language.id.length > 0;
 }
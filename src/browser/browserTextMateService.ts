@@ -1,12 +1,380 @@
+import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+import type { IRawTheme, StackElement } from 'vscode-textmate';
 import { AbstractTextMateService } from './abstractTextMateService';
+import { ITextMateServiceOptions } from './textMate';
+import { assertCanSetModelTokens, IPendingModelChanges, setModelTokens, transformTokens } from './textModelTokens';
+import type { ICreateData, IModelContentChange, ITextMateWorkerHost, IWorkerLineTokens, TextMateWorker } from './textMateWorker';
+import { IValidGrammarDefinition } from '../common/TMScopeRegistry';
+import { TMGrammarFactory } from '../common/TMGrammarFactory';
+import { ITokenizationLineLimit, ITokenizationTimeOut, TMTokenization, TMTokenizationSupportWithLineLimit } from '../common/TMTokenization';
+import { LanguageId } from '../support/encodedTokenAttributes';
+import { ILogger } from '../support/logger';
+import { IResourceLoader } from '../support/resourceLoader';
+import { Disposable, DisposableStore } from '../support/utils/lifecycle';
+
+export type OnigurumaWASMSource = string | monaco.Uri | ArrayBuffer | WebAssembly.Module | (() => Promise<Response | ArrayBuffer | WebAssembly.Module>);
+
+export interface IBrowserTextMateServiceOptions extends ITextMateServiceOptions {
+	/**
+	 * The Oniguruma WASM binary: a location, the binary data, an already compiled module or
+	 * an async factory returning one of those. Defaults to `/assets/onig.wasm`. A relative URL string
+	 * is resolved against the document's base URL, like the URLs in the page.
+	 */
+	onigurumaWASM?: OnigurumaWASMSource;
+
+	/**
+	 * Tokenizes the models in a web worker. `MonacoEnvironment.getWorker` must return a worker
+	 * running `textMate.worker.js` for the label `textMateWorker`. Relies on internals of Monaco 0.33.
+	 */
+	tokenizeInWorker?: boolean;
+}
+
+/**
+ * Lines above the viewport tokenized on the main thread until the worker sends the first tokens.
+ */
+const VIEWPORT_FALLBACK_CONTEXT_LINES = 50;
 
 export class TextMateService extends AbstractTextMateService {
-	protected async _loadVSCodeOnigurumWASM(): Promise<Response | ArrayBuffer> {
-  	const response = await fetch('/assets/onig.wasm');
-		// Using the response directly only works if the server sets the MIME type 'application/wasm'.
-		// Otherwise, a TypeError is thrown when using the streaming compiler.
-		// We therefore use the non-streaming compiler :(.
-		return await response.arrayBuffer();
+
+	private readonly _onigurumaWASM: OnigurumaWASMSource;
+	private readonly _tokenizeInWorker: boolean;
+
+	private _worker: monaco.editor.MonacoWebWorker<TextMateWorker> | null = null;
+	private _workerProxy: TextMateWorker | null = null;
+	private _workerRequest = 0;
+	private _workerLanguages = new Set<string>();
+	private readonly _workerDisposables = this._register(new DisposableStore());
+	private readonly _tokenizers: { [uri: string]: ModelWorkerTextMateTokenizer } = Object.create(null);
+	private readonly _editors = new Set<monaco.editor.ICodeEditor>();
+
+	constructor(options: IBrowserTextMateServiceOptions = {}) {
+		super(options);
+		this._onigurumaWASM = options.onigurumaWASM ?? '/assets/onig.wasm';
+		this._tokenizeInWorker = !!options.tokenizeInWorker;
+		if (this._tokenizeInWorker) {
+			this._register(monaco.editor.onDidCreateEditor(editor => {
+				this._editors.add(editor);
+				editor.onDidDispose(() => this._editors.delete(editor));
+			}));
+		}
+	}
+
+	public override dispose(): void {
+		this._killWorker();
+		super.dispose();
+	}
+
+	protected async _loadVSCodeOnigurumWASM(): Promise<Response | ArrayBuffer | WebAssembly.Module> {
+		const source = this._onigurumaWASM;
+		if (typeof source === 'function') {
+			return source();
+		}
+		if (source instanceof ArrayBuffer || source instanceof WebAssembly.Module) {
+			return source;
+		}
+		// Uri.parse would take a string without a scheme for a path from the root
+		const location = typeof source === 'string' ? monaco.Uri.parse(new URL(source, document.baseURI).href) : source;
+		if (this._resourceLoader.readResponse) {
+			// The response is compiled while streaming if the server sets the MIME type 'application/wasm'
+			return this._resourceLoader.readResponse(location);
+		}
+		return this._resourceLoader.readBinary(location);
+	}
+
+	protected override _createTokenizationSupport(languageId: string, encodedLanguageId: LanguageId, tokenization: TMTokenization): monaco.languages.EncodedTokensProvider | null {
+		if (this._tokenizeInWorker) {
+			// The worker sets the tokens of the models directly
+			return null;
+		}
+		return super._createTokenizationSupport(languageId, encodedLanguageId, tokenization);
+	}
+
+	protected override _onDidCreateGrammarFactory(grammarDefinitions: IValidGrammarDefinition[]): void {
+		this._killWorker();
+		if (this._tokenizeInWorker) {
+			this._startWorker(grammarDefinitions).catch(err => this._logger.error('Unable to start the TextMate worker', err));
+		}
+	}
+
+	protected override _onDidDisposeGrammarFactory(): void {
+		this._killWorker();
+	}
+
+	protected override _doUpdateTheme(grammarFactory: TMGrammarFactory | null, theme: IRawTheme, tokenColorMap: string[]): void {
+		super._doUpdateTheme(grammarFactory, theme, tokenColorMap);
+		this._workerProxy?.acceptTheme(theme, tokenColorMap);
+	}
+
+	private async _startWorker(grammarDefinitions: IValidGrammarDefinition[]): Promise<void> {
+		const request = ++this._workerRequest;
+		const wasm = await this._loadVSCodeOnigurumWASM();
+		// Only binaries and compiled modules can be sent to the worker
+		const onigurumaWASM = wasm instanceof Response ? await wasm.arrayBuffer() : wasm;
+		if (request !== this._workerRequest) {
+			return;
+		}
+
+		this._workerLanguages = new Set(grammarDefinitions.map(def => def.language!).filter(language => !!language));
+		const lineLimits: ICreateData['lineLimits'] = {};
+		for (const languageId of this._workerLanguages) {
+			lineLimits[languageId] = this._getTokenizationLineLimit(languageId);
+		}
+		const createData: ICreateData = { grammarDefinitions, onigurumaWASM, lineLimits, tokenizationTimeLimit: this._tokenizationTimeLimit };
+		const worker = monaco.editor.createWebWorker<TextMateWorker>({
+			moduleId: 'textMateWorker',
+			label: 'textMateWorker',
+			createData,
+			host: new TextMateWorkerHost(this._resourceLoader, this._logger, {
+				setTokens: (resource, versionId, tokens) => this._tokenizers[resource.toString()]?.setTokens(versionId, tokens),
+				timedOut: (languageId, scopeName, timeOut) => this._onTokenizationTimeOut(languageId, scopeName, timeOut)
+			}),
+			keepIdleModels: true
+		});
+		this._worker = worker;
+		const proxy = await worker.getProxy();
+		if (request !== this._workerRequest) {
+			return;
+		}
+		this._workerProxy = proxy;
+		if (this._currentTheme && this._currentTokenColorMap) {
+			proxy.acceptTheme(this._currentTheme, this._currentTokenColorMap);
+		}
+		for (const model of monaco.editor.getModels()) {
+			this._onModelAdded(model);
+		}
+		this._workerDisposables.add(monaco.editor.onDidCreateModel(model => this._onModelAdded(model)));
+		this._workerDisposables.add(monaco.editor.onWillDisposeModel(model => this._onModelRemoved(model)));
+	}
+
+	private _killWorker(): void {
+		this._workerRequest++;
+		this._workerDisposables.clear();
+		for (const key of Object.keys(this._tokenizers)) {
+			this._tokenizers[key].dispose();
+			delete this._tokenizers[key];
+		}
+		this._workerProxy = null;
+		if (this._worker) {
+			this._worker.dispose();
+			this._worker = null;
+		}
+	}
+
+	private _onModelAdded(model: monaco.editor.ITextModel): void {
+		if (!this._workerProxy) {
+			return;
+		}
+		const key = model.uri.toString();
+		this._tokenizers[key]?.dispose();
+		this._tokenizers[key] = new ModelWorkerTextMateTokenizer(this._workerProxy, model, {
+			hasGrammar: languageId => this._workerLanguages.has(languageId),
+			createTokenization: languageId => this._createViewportTokenization(languageId),
+			getTokenizationLineLimit: languageId => this._getTokenizationLineLimit(languageId),
+			getVisibleRanges: model => this._getVisibleRanges(model)
+		});
+	}
+
+	private _onModelRemoved(model: monaco.editor.ITextModel): void {
+		const key = model.uri.toString();
+		if (this._tokenizers[key]) {
+			this._tokenizers[key].dispose();
+			delete this._tokenizers[key];
+		}
+	}
+
+	private async _createViewportTokenization(languageId: string): Promise<TMTokenization | null> {
+		const [grammar, vscodeTextmate] = await Promise.all([this.createGrammar(languageId), import('vscode-textmate')]);
+		if (!grammar) {
+			return null;
+		}
+		return new TMTokenization(grammar, vscodeTextmate.INITIAL, false, this._tokenizationTimeLimit);
+	}
+
+	private _getVisibleRanges(model: monaco.editor.ITextModel): monaco.Range[] {
+		const ranges: monaco.Range[] = [];
+		for (const editor of this._editors) {
+			if (editor.getModel() === model) {
+				ranges.push(...editor.getVisibleRanges());
+			}
+		}
+		return ranges;
 	}
 }
 
+/**
+ * The methods the worker can call on the main thread. Kept apart from the service, all methods of
+ * the host are exposed to the worker.
+ */
+class TextMateWorkerHost implements ITextMateWorkerHost {
+
+	constructor(
+		private readonly _resourceLoader: IResourceLoader,
+		private readonly _logger: ILogger,
+		private readonly _delegate: {
+			setTokens(resource: monaco.Uri, versionId: number, tokens: IWorkerLineTokens[]): void;
+			timedOut(languageId: string, scopeName: string, timeOut: ITokenizationTimeOut): void;
+		}
+	) {
+	}
+
+	public async readFile(resource: monaco.UriComponents): Promise<string> {
+		return this._resourceLoader.readFile(monaco.Uri.revive(resource));
+	}
+
+	public async setTokens(resource: monaco.UriComponents, versionId: number, tokens: IWorkerLineTokens[]): Promise<void> {
+		this._delegate.setTokens(monaco.Uri.revive(resource), versionId, tokens);
+	}
+
+	public async timedOut(languageId: string, scopeName: string, timeOut: ITokenizationTimeOut): Promise<void> {
+		this._delegate.timedOut(languageId, scopeName, timeOut);
+	}
+
+	public async log(level: keyof ILogger, message: string, ...args: any[]): Promise<void> {
+		this._logger[level](message, ...args);
+	}
+}
+
+interface IModelTokenizerContext {
+	hasGrammar(languageId: string): boolean;
+	/**
+	 * Creates a tokenization for the main thread, to be disposed by the caller.
+	 */
+	createTokenization(languageId: string): Promise<TMTokenization | null>;
+	getTokenizationLineLimit(languageId: string): ITokenizationLineLimit;
+	getVisibleRanges(model: monaco.editor.ITextModel): monaco.Range[];
+}
+
+/**
+ * Mirrors a model to the worker and applies the tokens it sends back.
+ */
+class ModelWorkerTextMateTokenizer extends Disposable {
+
+	private readonly _worker: TextMateWorker;
+	private readonly _model: monaco.editor.ITextModel;
+	private readonly _context: IModelTokenizerContext;
+	private _isSynced: boolean;
+	private _hasWorkerTokens: boolean;
+
+	/**
+	 * Changes the worker may not have seen yet when it sent tokens.
+	 */
+	private _pendingChanges: IPendingModelChanges[];
+
+	constructor(worker: TextMateWorker, model: monaco.editor.ITextModel, context: IModelTokenizerContext) {
+		super();
+		assertCanSetModelTokens(model);
+		this._worker = worker;
+		this._model = model;
+		this._context = context;
+		this._isSynced = false;
+		this._hasWorkerTokens = false;
+		this._pendingChanges = [];
+
+		this._register(this._model.onDidChangeContent((e) => {
+			if (!this._isSynced) {
+				return;
+			}
+			const changes = e.changes.map<IModelContentChange>(change => ({ range: change.range, text: change.text }));
+			this._pendingChanges.push({ versionId: e.versionId, changes });
+			this._worker.acceptModelChanged(this._model.uri.toString(), e.versionId, changes);
+		}));
+		this._register(this._model.onDidChangeLanguage((e) => {
+			const hasGrammar = this._context.hasGrammar(e.newLanguage);
+			if (this._isSynced && hasGrammar) {
+				this._hasWorkerTokens = false;
+				this._worker.acceptModelLanguageChanged(this._model.uri.toString(), e.newLanguage, monaco.languages.getEncodedLanguageId(e.newLanguage));
+				this._tokenizeViewport();
+			} else if (this._isSynced) {
+				this._endSync();
+			} else if (hasGrammar) {
+				this._beginSync();
+			}
+		}));
+
+		if (this._context.hasGrammar(this._model.getLanguageId())) {
+			this._beginSync();
+		}
+	}
+
+	public override dispose(): void {
+		if (this._isSynced) {
+			this._endSync();
+		}
+		super.dispose();
+	}
+
+	private _beginSync(): void {
+		this._isSynced = true;
+		this._hasWorkerTokens = false;
+		this._pendingChanges = [];
+		const languageId = this._model.getLanguageId();
+		this._worker.acceptNewModel({
+			uri: this._model.uri,
+			versionId: this._model.getVersionId(),
+			lines: this._model.getLinesContent(),
+			languageId,
+			encodedLanguageId: monaco.languages.getEncodedLanguageId(languageId)
+		});
+		this._tokenizeViewport();
+	}
+
+	private _endSync(): void {
+		this._isSynced = false;
+		this._pendingChanges = [];
+		this._worker.acceptRemovedModel(this._model.uri.toString());
+	}
+
+	public setTokens(versionId: number, tokens: IWorkerLineTokens[]): void {
+		if (!this._isSynced) {
+			return;
+		}
+		this._hasWorkerTokens = true;
+		while (this._pendingChanges.length > 0 && this._pendingChanges[0].versionId <= versionId) {
+			this._pendingChanges.shift();
+		}
+		this._applyTokens(transformTokens(tokens, this._pendingChanges));
+	}
+
+	private _applyTokens(lines: Map<number, Uint32Array>): void {
+		setModelTokens(this._model, lines);
+	}
+
+	/**
+	 * Colors the visible lines on the main thread until the worker catches up.
+	 */
+	private async _tokenizeViewport(): Promise<void> {
+		const languageId = this._model.getLanguageId();
+		const ranges = this._context.getVisibleRanges(this._model);
+		if (ranges.length === 0) {
+			return;
+		}
+		const tokenization = await this._context.createTokenization(languageId);
+		if (!tokenization) {
+			return;
+		}
+		try {
+			if (!this._isSynced || this._hasWorkerTokens || this._model.getLanguageId() !== languageId) {
+				return;
+			}
+			const tokenizationSupport = new TMTokenizationSupportWithLineLimit(monaco.languages.getEncodedLanguageId(languageId), tokenization, this._context.getTokenizationLineLimit(languageId));
+			const lines = new Map<number, Uint32Array>();
+			for (const range of ranges) {
+				// The state above the viewport is unknown, start a bit earlier from the initial state
+				let state = <StackElement>tokenizationSupport.getInitialState();
+				const startLineNumber = Math.max(1, range.startLineNumber - VIEWPORT_FALLBACK_CONTEXT_LINES);
+				for (let lineNumber = startLineNumber; lineNumber <= range.endLineNumber; lineNumber++) {
+					const r = tokenizationSupport.tokenizeEncoded(this._model.getLineContent(lineNumber), state);
+					state = <StackElement>r.endState;
+					if (lineNumber >= range.startLineNumber) {
+						lines.set(lineNumber, r.tokens);
+					}
+				}
+			}
+			this._applyTokens(lines);
+		} finally {
+			// Also cancels the background retries of lines that timed out
+			tokenization.dispose();
+		}
+	}
+}
@@ -0,0 +1,365 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+import type { IGrammar, IToken, StackElement } from 'vscode-textmate';
+import { ITextMateService } from './textMate';
+import { findMatchingThemeRule, ThemeRule } from '../common/TMHelper';
+import { FontStyle, LanguageId, StandardTokenType, TokenMetadata } from '../support/encodedTokenAttributes';
+import { Disposable } from '../support/utils/lifecycle';
+import { Color } from '../support/utils/color';
+import { IWorkbenchColorTheme } from '../support/workbenchThemeService';
+
+interface IDecodedMetadata {
+	languageId: string | undefined;
+	tokenType: StandardTokenType;
+	bold: boolean | undefined;
+	italic: boolean | undefined;
+	underline: boolean | undefined;
+	strikethrough: boolean | undefined;
+	foreground: string | undefined;
+	background: string | undefined;
+}
+
+interface ITextMateTokenInfo {
+	token: IToken;
+	metadata: IDecodedMetadata;
+}
+
+/**
+ * Adds the "Developer: Inspect Editor Tokens and Scopes" action to an editor. The widget shows
+ * the TextMate scopes of the token under the cursor, the theme rule that colors it and the
+ * resolved style.
+ */
+export class InspectEditorTokensController extends Disposable {
+
+	public static readonly ACTION_ID = 'editor.action.inspectTMScopes';
+
+	private readonly _editor: monaco.editor.IStandaloneCodeEditor;
+	private readonly _textMateService: ITextMateService;
+	private _widget: InspectEditorTokensWidget | null;
+
+	constructor(editor: monaco.editor.IStandaloneCodeEditor, textMateService: ITextMateService) {
+		super();
+		this._editor = editor;
+		this._textMateService = textMateService;
+		this._widget = null;
+
+		this._register(this._editor.addAction({
+			id: InspectEditorTokensController.ACTION_ID,
+			label: 'Developer: Inspect Editor Tokens and Scopes',
+			run: () => this.toggle()
+		}));
+		this._register(this._editor.onDidChangeModel(() => this.stop()));
+		this._register(this._editor.onDidChangeModelLanguage(() => this.stop()));
+		this._register(this._editor.onKeyUp((e) => e.keyCode === monaco.KeyCode.Escape && this.stop()));
+	}
+
+	public override dispose(): void {
+		this.stop();
+		super.dispose();
+	}
+
+	public launch(): void {
+		if (this._widget) {
+			return;
+		}
+		if (!this._editor.getModel()) {
+			return;
+		}
+		this._widget = new InspectEditorTokensWidget(this._editor, this._textMateService);
+	}
+
+	public stop(): void {
+		if (this._widget) {
+			this._widget.dispose();
+			this._widget = null;
+		}
+	}
+
+	public toggle(): void {
+		if (!this._widget) {
+			this.launch();
+		} else {
+			this.stop();
+		}
+	}
+}
+
+function renderTokenText(tokenText: string): string {
+	if (tokenText.length > 40) {
+		tokenText = tokenText.substr(0, 20) + '…' + tokenText.substr(tokenText.length - 20);
+	}
+	let result: string = '';
+	for (let charIndex = 0, len = tokenText.length; charIndex < len; charIndex++) {
+		const charCode = tokenText.charCodeAt(charIndex);
+		switch (charCode) {
+			case 9: // Tab
+				result += '→'; // &rarr;
+				break;
+
+			case 32: // Space
+				result += '·'; // &middot;
+				break;
+
+			default:
+				result += String.fromCharCode(charCode);
+		}
+	}
+	return result;
+}
+
+function $(tagName: string, style?: Partial<CSSStyleDeclaration>, ...children: Array<Node | string>): HTMLElement {
+	const element = document.createElement(tagName);
+	if (style) {
+		Object.assign(element.style, style);
+	}
+	element.append(...children);
+	return element;
+}
+
+class InspectEditorTokensWidget extends Disposable implements monaco.editor.IContentWidget {
+
+	private static readonly _ID = 'editor.contrib.inspectEditorTokensWidget';
+
+	// Editor.IContentWidget.allowEditorOverflow
+	public readonly allowEditorOverflow = true;
+
+	private _isDisposed: boolean;
+	private _request: number;
+	private readonly _editor: monaco.editor.ICodeEditor;
+	private readonly _textMateService: ITextMateService;
+	private readonly _domNode: HTMLElement;
+
+	constructor(editor: monaco.editor.ICodeEditor, textMateService: ITextMateService) {
+		super();
+		this._isDisposed = false;
+		this._request = 0;
+		this._editor = editor;
+		this._textMateService = textMateService;
+		this._domNode = $('div', {
+			padding: '10px',
+			borderRadius: '3px',
+			zIndex: '50',
+			userSelect: 'text',
+			fontSize: '12px',
+			color: 'var(--vscode-editorHoverWidget-foreground)',
+			backgroundColor: 'var(--vscode-editorHoverWidget-background)',
+			border: '1px solid var(--vscode-editorHoverWidget-border)',
+		});
+		this._domNode.className = 'token-inspect-widget';
+
+		this._editor.addContentWidget(this);
+		this._register(this._editor.onDidChangeCursorPosition((e) => this._beginCompute(e.position)));
+		this._beginCompute(this._editor.getPosition());
+	}
+
+	public override dispose(): void {
+		this._isDisposed = true;
+		this._editor.removeContentWidget(this);
+		super.dispose();
+	}
+
+	public getId(): string {
+		return InspectEditorTokensWidget._ID;
+	}
+
+	public getDomNode(): HTMLElement {
+		return this._domNode;
+	}
+
+	public getPosition(): monaco.editor.IContentWidgetPosition {
+		return {
+			position: this._editor.getPosition(),
+			preference: [monaco.editor.ContentWidgetPositionPreference.BELOW, monaco.editor.ContentWidgetPositionPreference.ABOVE]
+		};
+	}
+
+	private async _beginCompute(position: monaco.Position | null): Promise<void> {
+		const model = this._editor.getModel();
+		if (!model || !position) {
+			return;
+		}
+		const request = ++this._request;
+		this._domNode.textContent = 'Loading...';
+		this._editor.layoutContentWidget(this);
+
+		const grammar = await this._textMateService.createGrammar(model.getLanguageId());
+		if (this._isDisposed || request !== this._request) {
+			// disposed or a newer position was requested in the meantime
+			return;
+		}
+		this._compute(model, grammar, position);
+		this._editor.layoutContentWidget(this);
+	}
+
+	private _compute(model: monaco.editor.ITextModel, grammar: IGrammar | null, position: monaco.Position): void {
+		const colorTheme = this._textMateService.getColorTheme();
+		this._domNode.textContent = '';
+		if (!grammar) {
+			this._domNode.append('No grammar available.');
+			return;
+		}
+
+		const textMateTokenInfo = this._getTokensAtPosition(model, grammar, position, colorTheme);
+		const tokenText = model.getLineContent(position.lineNumber).substring(textMateTokenInfo.token.startIndex, textMateTokenInfo.token.endIndex);
+		const tokenLength = tokenText.length;
+
+		this._domNode.append($('h2', { margin: '0 0 5px 0', fontWeight: 'bold' },
+			renderTokenText(tokenText),
+			$('span', { fontWeight: 'normal', float: 'right', paddingLeft: '10px' }, `${tokenLength} ${tokenLength === 1 ? 'char' : 'chars'}`)
+		));
+		this._domNode.append(this._separator());
+
+		const metadata = textMateTokenInfo.metadata;
+		const properties: [string, string | Node][] = [
+			['language', metadata.languageId ?? ''],
+			['standard token type', this._tokenTypeToString(metadata.tokenType)],
+			...this._formatMetadata(metadata)
+		];
+		this._domNode.append(this._table(properties));
+		this._domNode.append(this._separator());
+
+		const scopes: HTMLElement[] = [];
+		for (let i = textMateTokenInfo.token.scopes.length - 1; i >= 0; i--) {
+			scopes.push($('div', undefined, textMateTokenInfo.token.scopes[i]));
+		}
+		const rule = colorTheme ? findMatchingThemeRule(colorTheme, textMateTokenInfo.token.scopes, false) : null;
+		this._domNode.append(this._table([
+			['textmate scopes', $('div', undefined, ...scopes)],
+			['foreground', this._renderThemeRule(rule)]
+		]));
+	}
+
+	private _separator(): HTMLElement {
+		return $('hr', { border: '0', height: '1px', backgroundColor: 'var(--vscode-editorHoverWidget-border)' });
+	}
+
+	private _table(rows: [string, string | Node][]): HTMLElement {
+		return $('table', { width: '100%' },
+			$('tbody', undefined, ...rows.map(([key, value]) => $('tr', undefined,
+				$('td', { verticalAlign: 'top', paddingRight: '10px', whiteSpace: 'nowrap' }, key),
+				$('td', { fontFamily: 'var(--monaco-monospace-font)', wordBreak: 'break-word' }, value)
+			)))
+		);
+	}
+
+	private _renderThemeRule(rule: ThemeRule | null): Node {
+		if (!rule) {
+			return $('span', undefined, 'No theme selector');
+		}
+		return $('div', undefined,
+			$('code', undefined, rule.rawSelector),
+			$('pre', { margin: '0' }, JSON.stringify(rule.settings, null, '\t'))
+		);
+	}
+
+	private _formatMetadata(metadata: IDecodedMetadata): [string, string][] {
+		const result: [string, string][] = [];
+
+		const fontStyle: string[] = [];
+		if (metadata.italic) {
+			fontStyle.push('italic');
+		}
+		if (metadata.bold) {
+			fontStyle.push('bold');
+		}
+		if (metadata.underline) {
+			fontStyle.push('underline');
+		}
+		if (metadata.strikethrough) {
+			fontStyle.push('strikethrough');
+		}
+
+		if (metadata.foreground) {
+			result.push(['foreground', metadata.foreground]);
+		}
+		if (metadata.background) {
+			result.push(['background', metadata.background]);
+		}
+		if (metadata.foreground && metadata.background) {
+			const background = Color.fromHex(metadata.background);
+			const foreground = Color.fromHex(metadata.foreground).makeOpaque(background);
+			result.push(['contrast ratio', foreground.getContrastRatio(background).toFixed(2)]);
+		}
+		result.push(['font style', fontStyle.length > 0 ? fontStyle.join(' ') : '---']);
+		return result;
+	}
+
+	private _decodeMetadata(metadata: number, colorTheme: IWorkbenchColorTheme | null): IDecodedMetadata {
+		const colorMap = colorTheme ? colorTheme.tokenColorMap : [];
+		const languageId = TokenMetadata.getLanguageId(metadata);
+		const tokenType = TokenMetadata.getTokenType(metadata);
+		const fontStyle = TokenMetadata.getFontStyle(metadata);
+		const foreground = TokenMetadata.getForeground(metadata);
+		const background = TokenMetadata.getBackground(metadata);
+		return {
+			languageId: this._decodeLanguageId(languageId),
+			tokenType: tokenType,
+			bold: (fontStyle & FontStyle.Bold) ? true : undefined,
+			italic: (fontStyle & FontStyle.Italic) ? true : undefined,
+			underline: (fontStyle & FontStyle.Underline) ? true : undefined,
+			strikethrough: (fontStyle & FontStyle.Strikethrough) ? true : undefined,
+			foreground: colorMap[foreground],
+			background: colorMap[background]
+		};
+	}
+
+	private _decodeLanguageId(encodedLanguageId: LanguageId): string | undefined {
+		const language = monaco.languages.getLanguages().find(language => monaco.languages.getEncodedLanguageId(language.id) === encodedLanguageId);
+		return language?.id;
+	}
+
+	private _tokenTypeToString(tokenType: StandardTokenType): string {
+		switch (tokenType) {
+			case StandardTokenType.Other: return 'Other';
+			case StandardTokenType.Comment: return 'Comment';
+			case StandardTokenType.String: return 'String';
+			case StandardTokenType.RegEx: return 'RegEx';
+			default: return '??';
+		}
+	}
+
+	private _getTokensAtPosition(model: monaco.editor.ITextModel, grammar: IGrammar, position: monaco.Position, colorTheme: IWorkbenchColorTheme | null): ITextMateTokenInfo {
+		const lineNumber = position.lineNumber;
+		const stateBeforeLine = this._getStateBeforeLine(model, grammar, lineNumber);
+
+		const tokenizationResult1 = grammar.tokenizeLine(model.getLineContent(lineNumber), stateBeforeLine);
+		const tokenizationResult2 = grammar.tokenizeLine2(model.getLineContent(lineNumber), stateBeforeLine);
+
+		let token1Index = 0;
+		for (let i = tokenizationResult1.tokens.length - 1; i >= 0; i--) {
+			const t = tokenizationResult1.tokens[i];
+			if (position.column - 1 >= t.startIndex) {
+				token1Index = i;
+				break;
+			}
+		}
+
+		let token2Index = 0;
+		for (let i = (tokenizationResult2.tokens.length >>> 1); i >= 0; i--) {
+			if (position.column - 1 >= tokenizationResult2.tokens[(i << 1)]) {
+				token2Index = i;
+				break;
+			}
+		}
+
+		return {
+			token: tokenizationResult1.tokens[token1Index],
+			metadata: this._decodeMetadata(tokenizationResult2.tokens[(token2Index << 1) + 1], colorTheme)
+		};
+	}
+
+	private _getStateBeforeLine(model: monaco.editor.ITextModel, grammar: IGrammar, lineNumber: number): StackElement | null {
+		let state: StackElement | null = null;
+
+		for (let i = 1; i < lineNumber; i++) {
+			const tokenizationResult = grammar.tokenizeLine(model.getLineContent(i), state);
+			state = tokenizationResult.ruleStack;
+		}
+
+		return state;
+	}
+}
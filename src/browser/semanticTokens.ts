@@ -0,0 +1,119 @@
+import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+export interface ISemanticTokenClassification {
+	/**
+	 * The token type and modifiers joined by dots, as Monaco matches them against the theme rules.
+	 */
+	readonly token: string;
+	readonly type: string;
+	readonly modifiers: string[];
+	readonly languageId: string;
+}
+
+/**
+ * Wraps a semantic tokens provider to report the token classifications it produces, so the
+ * service can define theme rules for them.
+ *
+ * Results with an id are kept until Monaco releases them, so the classifications of later edits
+ * to them can be read from the edited tokens.
+ */
+export class ThemedDocumentSemanticTokensProvider implements monaco.languages.DocumentSemanticTokensProvider {
+
+	private readonly _seen = new Set<string>();
+	private readonly _results = new Map<string, Uint32Array>();
+
+	public readonly onDidChange?: monaco.IEvent<void>;
+
+	constructor(
+		private readonly _provider: monaco.languages.DocumentSemanticTokensProvider,
+		private readonly _onDidEncounterClassifications: (classifications: ISemanticTokenClassification[]) => void
+	) {
+		this.onDidChange = _provider.onDidChange;
+	}
+
+	getLegend(): monaco.languages.SemanticTokensLegend {
+		return this._provider.getLegend();
+	}
+
+	async provideDocumentSemanticTokens(model: monaco.editor.ITextModel, lastResultId: string | null, token: monaco.CancellationToken): Promise<monaco.languages.SemanticTokens | monaco.languages.SemanticTokensEdits | null | undefined> {
+		const result = await this._provider.provideDocumentSemanticTokens(model, lastResultId, token);
+		if (!result) {
+			return result;
+		}
+		let data: Uint32Array | undefined;
+		if ('data' in result) {
+			data = result.data;
+		} else {
+			const previous = lastResultId !== null ? this._results.get(lastResultId) : undefined;
+			data = previous && applySemanticTokensEdits(previous, result.edits);
+		}
+		if (data) {
+			if (result.resultId) {
+				this._results.set(result.resultId, data);
+			}
+			this._collectClassifications(data, model.getLanguageId());
+		}
+		return result;
+	}
+
+	releaseDocumentSemanticTokens(resultId: string | undefined): void {
+		if (resultId) {
+			this._results.delete(resultId);
+		}
+		this._provider.releaseDocumentSemanticTokens(resultId);
+	}
+
+	private _collectClassifications(data: Uint32Array, languageId: string): void {
+		const legend = this._provider.getLegend();
+		const classifications: ISemanticTokenClassification[] = [];
+		for (let i = 3; i < data.length; i += 5) {
+			const tokenTypeIndex = data[i];
+			const tokenModifierSet = data[i + 1];
+			const key = `${tokenTypeIndex}/${tokenModifierSet}/${languageId}`;
+			if (this._seen.has(key)) {
+				continue;
+			}
+			this._seen.add(key);
+
+			const type = legend.tokenTypes[tokenTypeIndex];
+			if (!type) {
+				continue;
+			}
+			// Same order as Monaco, which joins the modifiers in legend order
+			const modifiers: string[] = [];
+			let modifierSet = tokenModifierSet;
+			for (let modifierIndex = 0; modifierSet > 0 && modifierIndex < legend.tokenModifiers.length; modifierIndex++) {
+				if (modifierSet & 1) {
+					modifiers.push(legend.tokenModifiers[modifierIndex]);
+				}
+				modifierSet = modifierSet >> 1;
+			}
+			classifications.push({ token: [type, ...modifiers].join('.'), type, modifiers, languageId });
+		}
+		if (classifications.length > 0) {
+			this._onDidEncounterClassifications(classifications);
+		}
+	}
+}
+
+function applySemanticTokensEdits(data: Uint32Array, edits: monaco.languages.SemanticTokensEdit[]): Uint32Array {
+	const sortedEdits = [...edits].sort((a, b) => a.start - b.start);
+	let length = data.length;
+	for (const edit of sortedEdits) {
+		length += (edit.data?.length ?? 0) - edit.deleteCount;
+	}
+	const result = new Uint32Array(length);
+	let sourceIndex = 0;
+	let resultIndex = 0;
+	for (const edit of sortedEdits) {
+		result.set(data.subarray(sourceIndex, edit.start), resultIndex);
+		resultIndex += edit.start - sourceIndex;
+		if (edit.data) {
+			result.set(edit.data, resultIndex);
+			resultIndex += edit.data.length;
+		}
+		sourceIndex = edit.start + edit.deleteCount;
+	}
+	result.set(data.subarray(sourceIndex), resultIndex);
+	return result;
+}
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { IPendingModelChanges, transformTokens } from '../textModelTokens';
+
+suite('transformTokens', () => {
+
+	function lineTokens(...values: number[]): Uint32Array[] {
+		return values.map(value => new Uint32Array([0, value]));
+	}
+
+	function toObject(lines: Map<number, Uint32Array>): { [lineNumber: number]: number } {
+		const result: { [lineNumber: number]: number } = {};
+		for (const [lineNumber, tokens] of lines) {
+			result[lineNumber] = tokens[1];
+		}
+		return result;
+	}
+
+	function change(startLineNumber: number, startColumn: number, endLineNumber: number, endColumn: number, text: string): IPendingModelChanges['changes'][number] {
+		return { range: { startLineNumber, startColumn, endLineNumber, endColumn }, text };
+	}
+
+	test('keeps the lines without pending changes', () => {
+		const lines = transformTokens([{ startLineNumber: 2, tokens: lineTokens(20, 30) }, { startLineNumber: 5, tokens: lineTokens(50) }], []);
+		assert.deepStrictEqual(toObject(lines), { 2: 20, 3: 30, 5: 50 });
+	});
+
+	test('drops the edited line', () => {
+		const lines = transformTokens([{ startLineNumber: 1, tokens: lineTokens(10, 20, 30) }], [
+			{ versionId: 2, changes: [change(2, 1, 2, 1, 'x')] }
+		]);
+		assert.deepStrictEqual(toObject(lines), { 1: 10, 3: 30 });
+	});
+
+	test('moves the lines below inserted lines', () => {
+		const lines = transformTokens([{ startLineNumber: 1, tokens: lineTokens(10, 20, 30) }], [
+			{ versionId: 2, changes: [change(1, 1, 1, 1, 'a\nb\r\n')] }
+		]);
+		assert.deepStrictEqual(toObject(lines), { 4: 20, 5: 30 });
+	});
+
+	test('moves the lines below deleted lines', () => {
+		const lines = transformTokens([{ startLineNumber: 1, tokens: lineTokens(10, 20, 30, 40) }], [
+			{ versionId: 2, changes: [change(1, 3, 3, 1, '')] }
+		]);
+		assert.deepStrictEqual(toObject(lines), { 2: 40 });
+	});
+
+	test('applies the changes of several versions in order', () => {
+		const lines = transformTokens([{ startLineNumber: 1, tokens: lineTokens(10, 20, 30, 40) }], [
+			{ versionId: 2, changes: [change(1, 1, 1, 1, '\n')] },
+			{ versionId: 3, changes: [change(4, 1, 5, 1, ''), change(6, 1, 6, 1, 'x')] }
+		]);
+		assert.deepStrictEqual(toObject(lines), { 3: 20 });
+	});
+});
@@ -3,13 +3,149 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
 import { Event } from '../support/utils/event';
-import type { IGrammar } from 'vscode-textmate';
+import { IDisposable } from '../support/utils/lifecycle';
+import type { IGrammar, IRawGrammar } from 'vscode-textmate';
+import { IResourceLoader } from '../support/resourceLoader';
+import { ILogger } from '../support/logger';
+import { IGrammarLoadEvent, IGrammarLoadFailureEvent, IMissingScopeEvent } from '../common/TMGrammarFactory';
+import { IColorizeToHtmlOptions } from '../common/textToHtmlTokenizer';
+import { IColorCustomizations, ITokenColorCustomizations, IWorkbenchColorTheme } from '../support/workbenchThemeService';
+
+export interface ITextMateServiceOptions {
+	/**
+	 * Loader used for extension manifests, grammars, themes and the Oniguruma WASM binary.
+	 * Defaults to a `fetch` based loader.
+	 */
+	resourceLoader?: IResourceLoader;
+
+	/**
+	 * Receives errors, warnings and traces of the service. Defaults to the console.
+	 */
+	logger?: ILogger;
+
+	/**
+	 * Lines of at least this length are not tokenized. Either one limit for all languages or limits
+	 * by language id, languages without one use 2000.
+	 */
+	maxTokenizationLineLength?: number | { [languageId: string]: number };
+
+	/**
+	 * Tokenizes the first `maxTokenizationLineLength` characters of longer lines and continues the
+	 * style of the last token to the end of the line, instead of leaving them plain.
+	 */
+	partialLongLineTokenization?: boolean;
+
+	/**
+	 * Milliseconds a single line may take to tokenize. Lines that take longer keep their partial
+	 * tokens and are tokenized again in the background with a larger budget. Defaults to 500.
+	 */
+	tokenizationTimeLimit?: number;
+
+	/**
+	 * The locale of the `package.nls.<locale>.json` files that localize the `%key%` placeholders of
+	 * the extension manifests, e.g. `de` or `zh-cn`. Without a locale, `package.nls.json` is used.
+	 */
+	locale?: string;
+}
+
+export interface IColorThemeInfo {
+	/**
+	 * The id to pass to `setThemeById`.
+	 */
+	readonly id: string;
+	readonly label: string;
+	readonly uiTheme: string;
+	readonly description?: string;
+}
+
+export interface IGrammarRegistration {
+	scopeName: string;
+	/**
+	 * The language tokenized by the grammar. Injection and embedded grammars have none.
+	 */
+	language?: string;
+	/**
+	 * The grammar as JSON or plist text, or already parsed.
+	 */
+	content?: string | IRawGrammar;
+	/**
+	 * Where to load the grammar from, if no content is given.
+	 */
+	location?: string | monaco.Uri;
+	embeddedLanguages?: { [scopeName: string]: string };
+	tokenTypes?: { [scopeName: string]: string };
+	injectTo?: string[];
+}
+
+export interface ITokenizationTimeOutEvent {
+	readonly languageId: string;
+	readonly scopeName: string;
+	/**
+	 * The line that took too long and where it occurs in the models of the language. The locations
+	 * are searched when first read.
+	 */
+	readonly line: string;
+	readonly locations: { uri: monaco.Uri; lineNumber: number }[];
+	readonly timeLimit: number;
+	/**
+	 * Whether the background retry timed out too. The line then stays partially tokenized.
+	 */
+	readonly isRetry: boolean;
+}
 
 export interface ITextMateService {
 	readonly _serviceBrand: undefined;
 
 	onDidEncounterLanguage: Event<string>;
 
+	onDidColorThemeChange: Event<IWorkbenchColorTheme>;
+
+	onDidTimeOutTokenizing: Event<ITokenizationTimeOutEvent>;
+
+	onDidLoadGrammar: Event<IGrammarLoadEvent>;
+
+	onDidFailToLoadGrammar: Event<IGrammarLoadFailureEvent>;
+
+	onDidMissScope: Event<IMissingScopeEvent>;
+
+	getColorTheme(): IWorkbenchColorTheme | null;
+
+	getAvailableThemes(): IColorThemeInfo[];
+
+	setThemeById(id: string): Promise<void>;
+
+	/**
+	 * Overrides colors of the current and any later theme, in the format of `workbench.colorCustomizations`.
+	 * Sections named `[Theme Name]`, optionally with `*` wildcards, only apply to the matching themes.
+	 */
+	setColorCustomizations(customizations: IColorCustomizations): void;
+
+	/**
+	 * Applies `editor.tokenColorCustomizations` style settings on top of the current and any later
+	 * theme. Sections named `[Theme Name]` only apply to the matching theme.
+	 */
+	setTokenColorCustomizations(customizations: ITokenColorCustomizations): void;
+
+	/**
+	 * Registers a grammar that is not contributed by an extension. Disposing the result removes it again.
+	 * Both reload all grammars and retokenize all models tokenized by the service.
+	 */
+	registerGrammar(grammar: IGrammarRegistration): IDisposable;
+
+	registerDocumentSemanticTokensProvider(languageSelector: monaco.languages.LanguageSelector, provider: monaco.languages.DocumentSemanticTokensProvider): IDisposable;
+
 	createGrammar(languageId: string): Promise<IGrammar | null>;
+
+	/**
+	 * Colorizes the code with the grammar of the language and the current theme. Does not need an editor.
+	 */
+	colorizeToHtml(code: string, languageId: string, options?: IColorizeToHtmlOptions): Promise<string>;
+
+	/**
+	 * The CSS for the HTML of `colorizeToHtml` in `class` mode, with the colors of the current theme.
+	 */
+	getTokenColorsCss(): string;
 }
@@ -0,0 +1,15 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+import * as worker from 'monaco-editor/esm/vs/editor/editor.worker';
+import { ICreateData, ITextMateWorkerHost, TextMateWorker } from './textMateWorker';
+
+self.onmessage = () => {
+	// ignore the first message
+	worker.initialize((ctx: monaco.worker.IWorkerContext<ITextMateWorkerHost>, createData: ICreateData) => {
+		return new TextMateWorker(ctx, createData);
+	});
+};
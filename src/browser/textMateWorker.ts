@@ -0,0 +1,363 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+import { URI } from 'monaco-editor/esm/vs/base/common/uri';
+import type { IOnigLib, IRawTheme, StackElement } from 'vscode-textmate';
+import { IValidGrammarDefinition } from '../common/TMScopeRegistry';
+import { TMGrammarFactory } from '../common/TMGrammarFactory';
+import { ITokenizationLineLimit, ITokenizationTimeOut, TMTokenization, TMTokenizationSupportWithLineLimit } from '../common/TMTokenization';
+import { LanguageId } from '../support/encodedTokenAttributes';
+import { ILogger } from '../support/logger';
+
+export interface IValidGrammarDefinitionDTO extends Omit<IValidGrammarDefinition, 'location'> {
+	location: monaco.UriComponents;
+}
+
+export interface ICreateData {
+	grammarDefinitions: IValidGrammarDefinitionDTO[];
+	onigurumaWASM: ArrayBuffer | WebAssembly.Module;
+	lineLimits: { [languageId: string]: ITokenizationLineLimit };
+	tokenizationTimeLimit: number;
+}
+
+export interface IRawModelData {
+	uri: monaco.UriComponents;
+	versionId: number;
+	lines: string[];
+	languageId: string;
+	encodedLanguageId: LanguageId;
+}
+
+export interface IModelContentChange {
+	range: monaco.IRange;
+	text: string;
+}
+
+/**
+ * The encoded tokens of consecutive lines, starting at `startLineNumber`.
+ */
+export interface IWorkerLineTokens {
+	startLineNumber: number;
+	tokens: Uint32Array[];
+}
+
+export interface ITextMateWorkerHost {
+	readFile(resource: monaco.UriComponents): Promise<string>;
+	setTokens(resource: monaco.UriComponents, versionId: number, tokens: IWorkerLineTokens[]): Promise<void>;
+	timedOut(languageId: string, scopeName: string, timeOut: ITokenizationTimeOut): Promise<void>;
+	/**
+	 * Forwards a message to the logger of the service.
+	 */
+	log(level: keyof ILogger, message: string, ...args: any[]): Promise<void>;
+}
+
+/**
+ * Tokenizes at most this long before yielding, so that edits reach the worker in time.
+ */
+const TOKENIZE_CHUNK_MS = 20;
+
+class TextMateWorkerModel {
+
+	private readonly _uri: monaco.UriComponents;
+	private readonly _worker: TextMateWorker;
+	private _lines: string[];
+	private _versionId: number;
+	private _languageId: string;
+	private _encodedLanguageId: LanguageId;
+	private _tokenization: TMTokenizationSupportWithLineLimit | null;
+	private _isDisposed: boolean;
+	private _isScheduled: boolean;
+
+	/**
+	 * The state at the beginning of each line, only valid up to the first line that needs tokenization.
+	 */
+	private _beginStates: (StackElement | null)[];
+	private _lineNeedsTokenization: boolean[];
+	private _invalidLineStartIndex: number;
+
+	constructor(uri: monaco.UriComponents, lines: string[], languageId: string, encodedLanguageId: LanguageId, versionId: number, worker: TextMateWorker) {
+		this._uri = uri;
+		this._worker = worker;
+		this._lines = lines;
+		this._versionId = versionId;
+		this._languageId = languageId;
+		this._encodedLanguageId = encodedLanguageId;
+		this._tokenization = null;
+		this._isDisposed = false;
+		this._isScheduled = false;
+		this._beginStates = [];
+		this._lineNeedsTokenization = [];
+		this._invalidLineStartIndex = 0;
+		this._invalidateAll();
+		this._resetTokenization();
+	}
+
+	public dispose(): void {
+		this._isDisposed = true;
+	}
+
+	public onLanguageId(languageId: string, encodedLanguageId: LanguageId): void {
+		this._languageId = languageId;
+		this._encodedLanguageId = encodedLanguageId;
+		this._resetTokenization();
+	}
+
+	public onEvents(versionId: number, changes: IModelContentChange[]): void {
+		this._versionId = versionId;
+		for (const change of changes) {
+			this._acceptChange(change);
+		}
+		this._beginTokenizing();
+	}
+
+	public get languageId(): string {
+		return this._languageId;
+	}
+
+	public retokenize(): void {
+		this._invalidateAll();
+		this._beginTokenizing();
+	}
+
+	private _acceptChange(change: IModelContentChange): void {
+		const startLineIndex = change.range.startLineNumber - 1;
+		const endLineIndex = change.range.endLineNumber - 1;
+		const before = this._lines[startLineIndex].substring(0, change.range.startColumn - 1);
+		const after = this._lines[endLineIndex].substring(change.range.endColumn - 1);
+		const newLines = (before + change.text + after).split(/\r\n|\r|\n/);
+
+		this._lines.splice(startLineIndex, endLineIndex - startLineIndex + 1, ...newLines);
+		// The begin state of the first changed line remains valid
+		this._beginStates.splice(startLineIndex + 1, endLineIndex - startLineIndex, ...newLines.slice(1).map(() => null));
+		this._lineNeedsTokenization.splice(startLineIndex, endLineIndex - startLineIndex + 1, ...newLines.map(() => true));
+		this._invalidLineStartIndex = Math.min(this._invalidLineStartIndex, startLineIndex);
+	}
+
+	private async _resetTokenization(): Promise<void> {
+		this._tokenization = null;
+		const languageId = this._languageId;
+		const tokenization = await this._worker.getTokenization(languageId, this._encodedLanguageId);
+		if (this._isDisposed || languageId !== this._languageId || !tokenization) {
+			return;
+		}
+		this._tokenization = tokenization;
+		this._invalidateAll();
+		this._beginTokenizing();
+	}
+
+	private _invalidateAll(): void {
+		this._beginStates = this._lines.map(() => null);
+		this._lineNeedsTokenization = this._lines.map(() => true);
+		this._invalidLineStartIndex = 0;
+		if (this._tokenization) {
+			this._beginStates[0] = <StackElement>this._tokenization.getInitialState();
+		}
+	}
+
+	private _beginTokenizing(): void {
+		if (this._isScheduled || !this._tokenization) {
+			return;
+		}
+		this._isScheduled = true;
+		setTimeout(() => {
+			this._isScheduled = false;
+			this._tokenizeChunk();
+		}, 0);
+	}
+
+	private _tokenizeChunk(): void {
+		const tokenization = this._tokenization;
+		if (this._isDisposed || !tokenization) {
+			return;
+		}
+
+		const result: IWorkerLineTokens[] = [];
+		let current: IWorkerLineTokens | null = null;
+		const endTime = Date.now() + TOKENIZE_CHUNK_MS;
+		let lineIndex = this._nextInvalidLine();
+		while (lineIndex < this._lines.length && Date.now() < endTime) {
+			const r = tokenization.tokenizeEncoded(this._lines[lineIndex], this._beginStates[lineIndex]!);
+			this._lineNeedsTokenization[lineIndex] = false;
+			this._setEndState(lineIndex, <StackElement>r.endState);
+
+			const lineNumber = lineIndex + 1;
+			if (!current || current.startLineNumber + current.tokens.length !== lineNumber) {
+				current = { startLineNumber: lineNumber, tokens: [] };
+				result.push(current);
+			}
+			current.tokens.push(r.tokens);
+
+			lineIndex = this._nextInvalidLine();
+		}
+
+		if (result.length > 0) {
+			this._worker.setTokens(this._uri, this._versionId, result);
+		}
+		if (lineIndex < this._lines.length) {
+			this._beginTokenizing();
+		}
+	}
+
+	private _setEndState(lineIndex: number, endState: StackElement): void {
+		const nextLineIndex = lineIndex + 1;
+		if (nextLineIndex >= this._lines.length) {
+			return;
+		}
+		const previous = this._beginStates[nextLineIndex];
+		if (previous && previous.equals(endState)) {
+			// The next line starts as before, its tokens are still valid
+			return;
+		}
+		this._beginStates[nextLineIndex] = endState;
+		this._lineNeedsTokenization[nextLineIndex] = true;
+	}
+
+	private _nextInvalidLine(): number {
+		while (this._invalidLineStartIndex < this._lines.length && !this._lineNeedsTokenization[this._invalidLineStartIndex]) {
+			this._invalidLineStartIndex++;
+		}
+		return this._invalidLineStartIndex;
+	}
+}
+
+/**
+ * Runs in a web worker. Owns Oniguruma and the grammars, tokenizes the models mirrored by the main
+ * thread and sends the encoded tokens back.
+ */
+export class TextMateWorker {
+
+	private readonly _host: ITextMateWorkerHost;
+	private readonly _models: { [uri: string]: TextMateWorkerModel; };
+	private readonly _tokenizations: Map<string, Promise<TMTokenizationSupportWithLineLimit | null>>;
+	private readonly _tmTokenizations: TMTokenization[];
+	private readonly _grammarFactory: Promise<TMGrammarFactory>;
+	private readonly _lineLimits: { [languageId: string]: ITokenizationLineLimit };
+	private readonly _tokenizationTimeLimit: number;
+
+	constructor(ctx: monaco.worker.IWorkerContext<ITextMateWorkerHost>, createData: ICreateData) {
+		this._host = ctx.host;
+		this._lineLimits = createData.lineLimits;
+		this._tokenizationTimeLimit = createData.tokenizationTimeLimit;
+		this._models = Object.create(null);
+		this._tokenizations = new Map();
+		this._tmTokenizations = [];
+		const grammarDefinitions = createData.grammarDefinitions.map<IValidGrammarDefinition>((def) => {
+			return {
+				...def,
+				location: URI.revive(def.location)
+			};
+		});
+		this._grammarFactory = this._loadTMGrammarFactory(grammarDefinitions, createData.onigurumaWASM);
+	}
+
+	private async _loadTMGrammarFactory(grammarDefinitions: IValidGrammarDefinition[], onigurumaWASM: ArrayBuffer | WebAssembly.Module): Promise<TMGrammarFactory> {
+		const [vscodeTextmate, vscodeOniguruma] = await Promise.all([import('vscode-textmate'), import('vscode-oniguruma')]);
+		await vscodeOniguruma.loadWASM({
+			instantiator: async imports => {
+				if (onigurumaWASM instanceof WebAssembly.Module) {
+					return { module: onigurumaWASM, instance: await WebAssembly.instantiate(onigurumaWASM, imports) };
+				}
+				return WebAssembly.instantiate(onigurumaWASM, imports);
+			},
+			print: (str: string) => {
+				this._host.log('info', str);
+			}
+		});
+		const onigLib: Promise<IOnigLib> = Promise.resolve({
+			createOnigScanner: (sources: string[]) => vscodeOniguruma.createOnigScanner(sources),
+			createOnigString: (str: string) => vscodeOniguruma.createOnigString(str)
+		});
+
+		return new TMGrammarFactory({
+			logTrace: (msg: string) => this._host.log('trace', msg),
+			logError: (msg: string, err: any) => this._host.log('error', msg, toLogArgument(err)),
+			readFile: (resource: monaco.Uri) => this._host.readFile(resource)
+		}, grammarDefinitions, vscodeTextmate, onigLib);
+	}
+
+	public getTokenization(languageId: string, encodedLanguageId: LanguageId): Promise<TMTokenizationSupportWithLineLimit | null> {
+		let tokenization = this._tokenizations.get(languageId);
+		if (!tokenization) {
+			tokenization = this._createTokenization(languageId, encodedLanguageId);
+			this._tokenizations.set(languageId, tokenization);
+		}
+		return tokenization;
+	}
+
+	private async _createTokenization(languageId: string, encodedLanguageId: LanguageId): Promise<TMTokenizationSupportWithLineLimit | null> {
+		const grammarFactory = await this._grammarFactory;
+		if (!grammarFactory.has(languageId)) {
+			return null;
+		}
+		try {
+			const r = await grammarFactory.createGrammar(languageId, encodedLanguageId);
+			if (!r.grammar) {
+				return null;
+			}
+			const tokenization = new TMTokenization(r.grammar, r.initialState, r.containsEmbeddedLanguages, this._tokenizationTimeLimit);
+			this._tmTokenizations.push(tokenization);
+			tokenization.onDidTimeOut(timeOut => this._host.timedOut(languageId, r.scopeName, timeOut));
+			tokenization.onDidRecover(() => {
+				for (const key of Object.keys(this._models)) {
+					if (this._models[key].languageId === languageId) {
+						this._models[key].retokenize();
+					}
+				}
+			});
+			return new TMTokenizationSupportWithLineLimit(encodedLanguageId, tokenization, this._lineLimits[languageId]);
+		} catch (err) {
+			this._host.log('error', `Unable to tokenize ${languageId}`, toLogArgument(err));
+			return null;
+		}
+	}
+
+	public acceptNewModel(data: IRawModelData): void {
+		const uri = URI.revive(data.uri);
+		const key = uri.toString();
+		this._models[key]?.dispose();
+		this._models[key] = new TextMateWorkerModel(uri, data.lines, data.languageId, data.encodedLanguageId, data.versionId, this);
+	}
+
+	public acceptModelChanged(strURL: string, versionId: number, changes: IModelContentChange[]): void {
+		this._models[strURL]?.onEvents(versionId, changes);
+	}
+
+	public acceptModelLanguageChanged(strURL: string, newLanguageId: string, newEncodedLanguageId: LanguageId): void {
+		this._models[strURL]?.onLanguageId(newLanguageId, newEncodedLanguageId);
+	}
+
+	public acceptRemovedModel(strURL: string): void {
+		if (this._models[strURL]) {
+			this._models[strURL].dispose();
+			delete this._models[strURL];
+		}
+	}
+
+	public async acceptTheme(theme: IRawTheme, colorMap: string[]): Promise<void> {
+		const grammarFactory = await this._grammarFactory;
+		grammarFactory.setTheme(theme, colorMap);
+		this._tmTokenizations.forEach(tokenization => tokenization.clearRecoveredLines());
+		// The token metadata contains the colors, so everything needs to be tokenized again
+		for (const key of Object.keys(this._models)) {
+			this._models[key].retokenize();
+		}
+	}
+
+	public setTokens(resource: monaco.UriComponents, versionId: number, tokens: IWorkerLineTokens[]): void {
+		this._host.setTokens(resource, versionId, tokens);
+	}
+}
+
+/**
+ * Errors are sent to the main thread as their stack, other values as they are.
+ */
+function toLogArgument(err: any): any {
+	return err instanceof Error ? (err.stack ?? err.message) : err;
+}
+
+export function create(ctx: monaco.worker.IWorkerContext<ITextMateWorkerHost>, createData: ICreateData): TextMateWorker {
+	return new TextMateWorker(ctx, createData);
+}
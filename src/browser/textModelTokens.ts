@@ -0,0 +1,101 @@
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+import type { IModelContentChange, IWorkerLineTokens } from './textMateWorker';
+
+/**
+ * The subset of Monaco's internal `ContiguousMultilineTokens` read by `TextModel.setTokens`.
+ */
+class ContiguousMultilineTokens {
+
+	constructor(
+		public readonly startLineNumber: number,
+		private readonly _tokens: Uint32Array[]
+	) {
+	}
+
+	public get endLineNumber(): number {
+		return this.startLineNumber + this._tokens.length - 1;
+	}
+
+	public getLineTokens(lineNumber: number): Uint32Array {
+		return this._tokens[lineNumber - this.startLineNumber];
+	}
+}
+
+interface ITokenizableTextModel extends monaco.editor.ITextModel {
+	setTokens(tokens: ContiguousMultilineTokens[], backgroundTokenizationCompleted?: boolean): void;
+}
+
+/**
+ * Sets the encoded tokens of lines of a model, by line number.
+ *
+ * Monaco has no API for this, so the internal `TextModel.setTokens` of Monaco 0.33 is used. Throws if
+ * the model does not have it, e.g. with another version of Monaco.
+ */
+export function setModelTokens(model: monaco.editor.ITextModel, lines: Map<number, Uint32Array>): void {
+	assertCanSetModelTokens(model);
+	const lineCount = model.getLineCount();
+	const lineNumbers = [...lines.keys()].filter(lineNumber => lineNumber <= lineCount).sort((a, b) => a - b);
+	const result: ContiguousMultilineTokens[] = [];
+	let startLineNumber = 0;
+	let current: Uint32Array[] = [];
+	for (const lineNumber of lineNumbers) {
+		if (current.length > 0 && startLineNumber + current.length !== lineNumber) {
+			result.push(new ContiguousMultilineTokens(startLineNumber, current));
+			current = [];
+		}
+		if (current.length === 0) {
+			startLineNumber = lineNumber;
+		}
+		current.push(lines.get(lineNumber)!);
+	}
+	if (current.length > 0) {
+		result.push(new ContiguousMultilineTokens(startLineNumber, current));
+	}
+	model.setTokens(result, false);
+}
+
+export function assertCanSetModelTokens(model: monaco.editor.ITextModel): asserts model is ITokenizableTextModel {
+	if (typeof (<Partial<ITokenizableTextModel>>model).setTokens !== 'function') {
+		throw new Error('Tokenizing in a web worker requires Monaco 0.33: the text model has no setTokens method.');
+	}
+}
+
+/**
+ * The changes of a model version.
+ */
+export interface IPendingModelChanges {
+	versionId: number;
+	changes: IModelContentChange[];
+}
+
+/**
+ * Moves the tokens sent by the worker over the edits made since the worker's version, dropping the
+ * edited lines.
+ */
+export function transformTokens(tokens: IWorkerLineTokens[], pendingChanges: IPendingModelChanges[]): Map<number, Uint32Array> {
+	let lines = new Map<number, Uint32Array>();
+	for (const { startLineNumber, tokens: lineTokens } of tokens) {
+		lineTokens.forEach((t, i) => lines.set(startLineNumber + i, t));
+	}
+	for (const { changes } of pendingChanges) {
+		for (const change of changes) {
+			const { startLineNumber, endLineNumber } = change.range;
+			const delta = countEOL(change.text) - (endLineNumber - startLineNumber);
+			const transformed = new Map<number, Uint32Array>();
+			for (const [lineNumber, t] of lines) {
+				if (lineNumber < startLineNumber) {
+					transformed.set(lineNumber, t);
+				} else if (lineNumber > endLineNumber) {
+					transformed.set(lineNumber + delta, t);
+				}
+			}
+			lines = transformed;
+		}
+	}
+	return lines;
+}
+
+function countEOL(text: string): number {
+	return text.split(/\r\n|\r|\n/).length - 1;
+}
@@ -2,20 +2,45 @@
  *  Copyright (c) Microsoft Corporation. All rights reserved.
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
 
-import type { IGrammar, Registry, StackElement, IRawTheme, IOnigLib } from 'vscode-textmate';
+import type { IGrammar, Registry, StackElement, IRawTheme, IOnigLib, IRawGrammar } from 'vscode-textmate';
 import { Disposable } from '../support/utils/lifecycle';
+import * as paths from '../support/utils/path';
 import { TMScopeRegistry, IValidGrammarDefinition, IValidEmbeddedLanguagesMap } from './TMScopeRegistry';
 
+export interface IGrammarLoadEvent {
+	readonly scopeName: string;
+	readonly location: monaco.Uri;
+	/**
+	 * Milliseconds it took to read and parse the grammar.
+	 */
+	readonly duration: number;
+}
+
+export interface IGrammarLoadFailureEvent extends IGrammarLoadEvent {
+	readonly error: any;
+}
+
+/**
+ * A grammar includes a scope, e.g. of an embedded language, for which no grammar is registered.
+ */
+export interface IMissingScopeEvent {
+	readonly scopeName: string;
+}
+
 interface ITMGrammarFactoryHost {
 	logTrace(msg: string): void;
 	logError(msg: string, err: any): void;
 	readFile(resource: monaco.Uri): Promise<string>;
+	onDidLoadGrammar?(e: IGrammarLoadEvent): void;
+	onDidFailToLoadGrammar?(e: IGrammarLoadFailureEvent): void;
+	onDidMissScope?(e: IMissingScopeEvent): void;
 }
 
 interface ICreateGrammarResult {
 	languageId: string;
+	scopeName: string;
 	grammar: IGrammar | null;
 	initialState: StackElement;
 	containsEmbeddedLanguages: boolean;
@@ -47,14 +72,24 @@ export class TMGrammarFactory extends Disposable {
 				const grammarDefinition = this._scopeRegistry.getGrammarDefinition(scopeName);
 				if (!grammarDefinition) {
 					this._host.logTrace(`No grammar found for scope ${scopeName}`);
+					this._host.onDidMissScope?.({ scopeName });
 					return null;
 				}
 				const location = grammarDefinition.location;
+				const startTime = Date.now();
 				try {
-					const content = await this._host.readFile(location);
-					return vscodeTextmate.parseRawGrammar(content, location.path);
+					let grammar: IRawGrammar;
+					if (grammarDefinition.content && typeof grammarDefinition.content !== 'string') {
+						grammar = grammarDefinition.content;
+					} else {
+						const content = grammarDefinition.content ?? await this._host.readFile(location);
+						grammar = await parseRawGrammar(vscodeTextmate, content, location.path);
+					}
+					this._host.onDidLoadGrammar?.({ scopeName, location, duration: Date.now() - startTime });
+					return grammar;
 				} catch (e) {
 					this._host.logError(`Unable to load and parse grammar for scope ${scopeName} from ${location}`, e);
+					this._host.onDidFailToLoadGrammar?.({ scopeName, location, duration: Date.now() - startTime, error: e });
 					return null;
 				}
 			},
@@ -156,9 +191,30 @@ export class TMGrammarFactory extends Disposable {
 
 		return {
 			languageId: languageId,
+			scopeName: scopeName,
 			grammar: grammar,
 			initialState: this._initialState,
 			containsEmbeddedLanguages: containsEmbeddedLanguages
 		};
 	}
 }
+
+/**
+ * Parses JSON and plist grammars with vscode-textmate, and YAML and CSON grammars with the
+ * respective parser.
+ */
+async function parseRawGrammar(vscodeTextmate: typeof import('vscode-textmate'), content: string, filePath: string): Promise<IRawGrammar> {
+	switch (paths.posix.extname(filePath).toLowerCase()) {
+		case '.yaml':
+		case '.yml': {
+			const yaml = await import('js-yaml');
+			return yaml.load(content) as IRawGrammar;
+		}
+		case '.cson': {
+			const cson = await import('cson-parser');
+			return cson.parse(content);
+		}
+		default:
+			return vscodeTextmate.parseRawGrammar(content, filePath);
+	}
+}
@@ -1,4 +1,8 @@
-import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+import type { IRawGrammar } from 'vscode-textmate';
+import { LanguageId, StandardTokenType } from '../support/encodedTokenAttributes';
+import { IValidEmbeddedLanguagesMap, IValidGrammarDefinition, IValidTokenTypeMap } from './TMScopeRegistry';
 
 interface IEmbeddedLanguagesMap {
 	[scopeName: string]: string;
@@ -23,3 +27,71 @@ export interface IExtensionValue<T> {
 	extensionLocation: monaco.Uri;
 	value: T;
 }
+
+/**
+ * Validates a grammar contribution. Embedded languages and the grammar's language are only kept if
+ * they are known.
+ */
+export function toValidGrammarDefinition(grammar: Omit<ITMSyntaxExtensionPoint, 'path'>, location: monaco.Uri, content: string | IRawGrammar | undefined, languageNames: string[], getEncodedLanguageId: (languageId: string) => LanguageId): IValidGrammarDefinition {
+	const embeddedLanguages: IValidEmbeddedLanguagesMap = Object.create(null);
+	if (grammar.embeddedLanguages) {
+		let scopes = Object.keys(grammar.embeddedLanguages);
+		for (let i = 0, len = scopes.length; i < len; i++) {
+			let scope = scopes[i];
+			let language = grammar.embeddedLanguages[scope];
+			if (typeof language !== 'string') {
+				// never hurts to be too careful
+				continue;
+			}
+			if (languageNames.includes(language)) {
+				embeddedLanguages[scope] = getEncodedLanguageId(language);
+			}
+		}
+	}
+
+	const tokenTypes: IValidTokenTypeMap = Object.create(null);
+	if (grammar.tokenTypes) {
+		const scopes = Object.keys(grammar.tokenTypes);
+		for (const scope of scopes) {
+			const tokenType = grammar.tokenTypes[scope];
+			switch (tokenType) {
+				case 'string':
+					tokenTypes[scope] = StandardTokenType.String;
+					break;
+				case 'other':
+					tokenTypes[scope] = StandardTokenType.Other;
+					break;
+				case 'comment':
+					tokenTypes[scope] = StandardTokenType.Comment;
+					break;
+			}
+		}
+	}
+
+	let validLanguageId: string | null = null;
+	if (grammar.language && languageNames.includes(grammar.language)) {
+		validLanguageId = grammar.language;
+	}
+
+	return {
+		location,
+		content,
+		language: validLanguageId ? validLanguageId : undefined,
+		scopeName: grammar.scopeName,
+		embeddedLanguages: embeddedLanguages,
+		tokenTypes: tokenTypes,
+		injectTo: grammar.injectTo,
+		balancedBracketSelectors: asStringArray(grammar.balancedBracketScopes, ['*']),
+		unbalancedBracketSelectors: asStringArray(grammar.unbalancedBracketScopes, []),
+	};
+}
+
+export function asStringArray(array: unknown, defaultValue: string[]): string[] {
+	if (!Array.isArray(array)) {
+		return defaultValue;
+	}
+	if (!array.every(e => typeof e === 'string')) {
+		return defaultValue;
+	}
+	return array;
+}
@@ -2,13 +2,18 @@
  *  Copyright (c) Microsoft Corporation. All rights reserved.
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
 
 import { Disposable } from '../support/utils/lifecycle';
+import type { IRawGrammar } from 'vscode-textmate';
 import { LanguageId, StandardTokenType } from '../support/encodedTokenAttributes';
 
 export interface IValidGrammarDefinition {
 	location: monaco.Uri;
+	/**
+	 * The grammar itself, as JSON or plist text or already parsed. Takes precedence over the location.
+	 */
+	content?: string | IRawGrammar;
 	language?: string;
 	scopeName: string;
 	embeddedLanguages: IValidEmbeddedLanguagesMap;
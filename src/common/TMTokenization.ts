@@ -2,12 +2,49 @@
  *  Copyright (c) Microsoft Corporation. All rights reserved.
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
 
 import { Emitter, Event } from '../support/utils/event';
-import { LanguageId, TokenMetadata } from '../support/encodedTokenAttributes';
-import type { IGrammar, StackElement } from 'vscode-textmate';
-import { Disposable } from '../support/utils/lifecycle';
+import { LanguageId, TokenMetadata, StandardTokenType, FontStyle, ColorId, MetadataConsts } from '../support/encodedTokenAttributes';
+import type { IGrammar, ITokenizeLineResult2, StackElement } from 'vscode-textmate';
+import { runWhenIdle } from '../support/utils/async';
+import { Disposable, IDisposable } from '../support/utils/lifecycle';
+
+/**
+ * Time in milliseconds a single line may take to tokenize, unless configured otherwise.
+ */
+export const DEFAULT_TOKENIZATION_TIME_LIMIT = 500;
+
+/**
+ * A line that timed out is tokenized again in the background with this many times the time limit.
+ */
+const RECOVERY_TIME_LIMIT_FACTOR = 10;
+
+/**
+ * At most this many lines tokenized in the background are remembered.
+ */
+const MAX_RECOVERED_LINES = 100;
+
+export interface ITokenizationTimeOut {
+	/**
+	 * The line that took too long.
+	 */
+	readonly line: string;
+	readonly timeLimit: number;
+	/**
+	 * Whether the background retry timed out too. The line then stays partially tokenized.
+	 */
+	readonly isRetry: boolean;
+}
+
+interface ILineTokenization {
+	readonly line: string;
+	readonly state: StackElement;
+}
+
+interface IRecoveredLine extends ILineTokenization {
+	readonly result: monaco.languages.IEncodedLineTokens;
+}
 
 export class TMTokenization extends Disposable implements monaco.languages.EncodedTokensProvider {
 
@@ -15,16 +52,41 @@ export class TMTokenization extends Disposable implements monaco.languages.Encod
 	private readonly _containsEmbeddedLanguages: boolean;
 	private readonly _seenLanguages: boolean[];
 	private readonly _initialState: StackElement;
+	private readonly _timeLimit: number;
+	private _pendingLines: ILineTokenization[];
+	private readonly _recoveredLines: Map<string, IRecoveredLine[]>;
+	private _recoveryScheduler: IDisposable | null;
+	private _hasRecoveredLines: boolean;
 
 	private readonly _onDidEncounterLanguage: Emitter<LanguageId> = this._register(new Emitter<LanguageId>());
 	public readonly onDidEncounterLanguage: Event<LanguageId> = this._onDidEncounterLanguage.event;
 
-	constructor(grammar: IGrammar, initialState: StackElement, containsEmbeddedLanguages: boolean) {
+	private readonly _onDidTimeOut: Emitter<ITokenizationTimeOut> = this._register(new Emitter<ITokenizationTimeOut>());
+	public readonly onDidTimeOut: Event<ITokenizationTimeOut> = this._onDidTimeOut.event;
+
+	/**
+	 * Fires when the lines that timed out have been tokenized in the background. Models containing
+	 * them need to be tokenized again.
+	 */
+	private readonly _onDidRecover: Emitter<void> = this._register(new Emitter<void>());
+	public readonly onDidRecover: Event<void> = this._onDidRecover.event;
+
+	constructor(grammar: IGrammar, initialState: StackElement, containsEmbeddedLanguages: boolean, timeLimit: number = DEFAULT_TOKENIZATION_TIME_LIMIT) {
 		super();
 		this._grammar = grammar;
 		this._initialState = initialState;
 		this._containsEmbeddedLanguages = containsEmbeddedLanguages;
 		this._seenLanguages = [];
+		this._timeLimit = timeLimit;
+		this._pendingLines = [];
+		this._recoveredLines = new Map();
+		this._recoveryScheduler = null;
+		this._hasRecoveredLines = false;
+	}
+
+	public override dispose(): void {
+		this._recoveryScheduler?.dispose();
+		super.dispose();
 	}
 
 	public getInitialState(): monaco.languages.IState {
@@ -36,14 +98,32 @@ export class TMTokenization extends Disposable implements monaco.languages.Encod
 	}
 
 	public tokenizeEncoded(line: string, state: StackElement): monaco.languages.IEncodedLineTokens {
-		const textMateResult = this._grammar.tokenizeLine2(line, state, 500);
+		const recovered = this._recoveredLines.get(line)?.find(r => r.state.equals(state));
+		if (recovered) {
+			return recovered.result;
+		}
+
+		const textMateResult = this._grammar.tokenizeLine2(line, state, this._timeLimit);
 
 		if (textMateResult.stoppedEarly) {
-			console.warn(`Time limit reached when tokenizing line: ${line.substring(0, 100)}`);
-			// return the state at the beginning of the line
+			this._onDidTimeOut.fire({ line, timeLimit: this._timeLimit, isRetry: false });
+			this._scheduleRecovery(line, state);
+			// return the state at the beginning of the line until the line is tokenized in the background
 			return { tokens: textMateResult.tokens, endState: state };
 		}
 
+		return this._acceptResult(state, textMateResult);
+	}
+
+	/**
+	 * Forgets the lines tokenized in the background. Their tokens contain the colors of the theme
+	 * they were tokenized with, so this needs to be called when the theme changes.
+	 */
+	public clearRecoveredLines(): void {
+		this._recoveredLines.clear();
+	}
+
+	private _acceptResult(state: StackElement, textMateResult: ITokenizeLineResult2): monaco.languages.IEncodedLineTokens {
 		if (this._containsEmbeddedLanguages) {
 			let seenLanguages = this._seenLanguages;
 			let tokens = textMateResult.tokens;
@@ -71,4 +151,142 @@ export class TMTokenization extends Disposable implements monaco.languages.Encod
 
 		return { tokens: textMateResult.tokens, endState };
 	}
+
+	private _scheduleRecovery(line: string, state: StackElement): void {
+		if (this._pendingLines.some(p => p.line === line && p.state.equals(state))) {
+			return;
+		}
+		this._pendingLines.push({ line, state });
+		this._scheduleNextRecovery();
+	}
+
+	private _scheduleNextRecovery(): void {
+		if (!this._recoveryScheduler) {
+			this._recoveryScheduler = runWhenIdle(() => {
+				this._recoveryScheduler = null;
+				this._recoverNextLine();
+			});
+		}
+	}
+
+	/**
+	 * Tokenizes one pending line per idle callback, so the retries do not block the thread for longer
+	 * than a single line.
+	 */
+	private _recoverNextLine(): void {
+		const pending = this._pendingLines.shift();
+		if (!pending) {
+			return;
+		}
+		const { line, state } = pending;
+		const timeLimit = this._timeLimit * RECOVERY_TIME_LIMIT_FACTOR;
+		const textMateResult = this._grammar.tokenizeLine2(line, state, timeLimit);
+		let result: monaco.languages.IEncodedLineTokens;
+		if (textMateResult.stoppedEarly) {
+			this._onDidTimeOut.fire({ line, timeLimit, isRetry: true });
+			// Remembered as well, so the line does not block tokenization again
+			result = { tokens: textMateResult.tokens, endState: state };
+		} else {
+			result = this._acceptResult(state, textMateResult);
+			this._hasRecoveredLines = true;
+		}
+		this._rememberRecoveredLine({ line, state, result });
+
+		if (this._pendingLines.length > 0) {
+			this._scheduleNextRecovery();
+		} else if (this._hasRecoveredLines) {
+			// Retokenize once all pending lines are done
+			this._hasRecoveredLines = false;
+			this._onDidRecover.fire();
+		}
+	}
+
+	private _rememberRecoveredLine(recovered: IRecoveredLine): void {
+		if (this._recoveredLines.size >= MAX_RECOVERED_LINES && !this._recoveredLines.has(recovered.line)) {
+			this._recoveredLines.delete(this._recoveredLines.keys().next().value);
+		}
+		const lines = this._recoveredLines.get(recovered.line) ?? [];
+		lines.push(recovered);
+		this._recoveredLines.set(recovered.line, lines);
+	}
+}
+
+interface IState {
+	clone(): IState;
+	equals(other: IState): boolean;
+}
+
+const NullState: IState = new class implements IState {
+	public clone(): IState {
+		return this;
+	}
+	public equals(other: IState): boolean {
+		return (this === other);
+	}
+};
+
+export function nullTokenizeEncoded(languageId: LanguageId, state: StackElement): monaco.languages.IEncodedLineTokens {
+	const tokens = new Uint32Array(2);
+	tokens[0] = 0;
+	tokens[1] = (
+		(languageId << MetadataConsts.LANGUAGEID_OFFSET)
+		| (StandardTokenType.Other << MetadataConsts.TOKEN_TYPE_OFFSET)
+		| (FontStyle.None << MetadataConsts.FONT_STYLE_OFFSET)
+		| (ColorId.DefaultForeground << MetadataConsts.FOREGROUND_OFFSET)
+		| (ColorId.DefaultBackground << MetadataConsts.BACKGROUND_OFFSET)
+	) >>> 0;
+
+	return { tokens, endState: state === null ? NullState : state };
+}
+
+/**
+ * Lines of at least this length are not tokenized, unless configured otherwise.
+ */
+export const DEFAULT_MAX_TOKENIZATION_LINE_LENGTH = 2000;
+
+export interface ITokenizationLineLimit {
+	maxLineLength: number;
+	/**
+	 * Tokenizes the first `maxLineLength` characters of longer lines instead of leaving them plain.
+	 */
+	partial: boolean;
+}
+
+export class TMTokenizationSupportWithLineLimit implements monaco.languages.EncodedTokensProvider {
+	private readonly _encodedLanguageId: LanguageId;
+	private readonly _actual: TMTokenization;
+	private readonly _lineLimit: ITokenizationLineLimit;
+
+	constructor(
+		encodedLanguageId: LanguageId,
+		actual: TMTokenization,
+		lineLimit: ITokenizationLineLimit = { maxLineLength: DEFAULT_MAX_TOKENIZATION_LINE_LENGTH, partial: false }
+	) {
+		this._encodedLanguageId = encodedLanguageId;
+		this._actual = actual;
+		this._lineLimit = lineLimit;
+	}
+
+	getInitialState(): monaco.languages.IState {
+		return this._actual.getInitialState();
+	}
+
+	tokenize(line: string, state: monaco.languages.IState): monaco.languages.ILineTokens {
+		throw new Error('Not supported!');
+	}
+
+	tokenizeEncoded(line: string, state: StackElement): monaco.languages.IEncodedLineTokens {
+		// Do not attempt to tokenize if a line is too long
+		if (line.length >= this._lineLimit.maxLineLength) {
+			if (!this._lineLimit.partial) {
+				return nullTokenizeEncoded(this._encodedLanguageId, state);
+			}
+			// The last token continues to the end of the line. Where the rest of the line leaves the
+			// grammar is unknown, so the next line starts from this line's start state, as after a plain line
+			const r = this._actual.tokenizeEncoded(line.substring(0, this._lineLimit.maxLineLength), state);
+			return { tokens: r.tokens, endState: state };
+		}
+
+		return this._actual.tokenizeEncoded(line, state);
+	}
 }
@@ -0,0 +1,415 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+import * as Json from '../support/utils/json';
+import * as types from '../support/utils/types';
+import { ILogger } from '../support/logger';
+
+interface IRegExp {
+	pattern: string;
+	flags?: string;
+}
+
+interface IIndentationRules {
+	decreaseIndentPattern: string | IRegExp;
+	increaseIndentPattern: string | IRegExp;
+	indentNextLinePattern?: string | IRegExp;
+	unIndentedLinePattern?: string | IRegExp;
+}
+
+interface IEnterAction {
+	indent: 'none' | 'indent' | 'indentOutdent' | 'outdent';
+	appendText?: string;
+	removeText?: number;
+}
+
+interface IOnEnterRule {
+	beforeText: string | IRegExp;
+	afterText?: string | IRegExp;
+	previousLineText?: string | IRegExp;
+	action: IEnterAction;
+}
+
+interface ILanguageConfiguration {
+	comments?: monaco.languages.CommentRule;
+	brackets?: monaco.languages.CharacterPair[];
+	autoClosingPairs?: Array<monaco.languages.CharacterPair | monaco.languages.IAutoClosingPairConditional>;
+	surroundingPairs?: Array<monaco.languages.CharacterPair | monaco.languages.IAutoClosingPair>;
+	colorizedBracketPairs?: Array<monaco.languages.CharacterPair>;
+	wordPattern?: string | IRegExp;
+	indentationRules?: IIndentationRules;
+	folding?: {
+		offSide?: boolean;
+		markers?: {
+			start?: string | IRegExp;
+			end?: string | IRegExp;
+		};
+	};
+	autoCloseBefore?: string;
+	onEnterRules?: IOnEnterRule[];
+}
+
+function isStringArr(something: string[] | null | undefined): something is string[] {
+	if (!Array.isArray(something)) {
+		return false;
+	}
+	for (let i = 0, len = something.length; i < len; i++) {
+		if (typeof something[i] !== 'string') {
+			return false;
+		}
+	}
+	return true;
+}
+
+function isCharacterPair(something: monaco.languages.CharacterPair | null | undefined): boolean {
+	return (
+		isStringArr(something)
+		&& something.length === 2
+	);
+}
+
+/**
+ * Parses the content of a `language-configuration.json` file. Invalid values are reported
+ * to the logger and skipped.
+ */
+export function parseLanguageConfiguration(languageId: string, location: monaco.Uri, content: string, logger: ILogger): monaco.languages.LanguageConfiguration {
+	const errors: Json.ParseError[] = [];
+	let configuration = <ILanguageConfiguration>Json.parse(content, errors);
+	if (errors.length) {
+		logger.error(`Errors parsing ${location.toString(true)}: ${errors.map(e => `${e.error} at offset ${e.offset}`).join('\n')}`);
+	}
+	if (Json.getNodeType(configuration) !== 'object') {
+		logger.error(`Invalid language configuration file ${location.toString(true)}: Object expected.`);
+		configuration = {};
+	}
+	return extractValidConfig(languageId, logger, configuration);
+}
+
+function extractValidConfig(languageId: string, logger: ILogger, configuration: ILanguageConfiguration): monaco.languages.LanguageConfiguration {
+	const comments = extractValidCommentRule(languageId, logger, configuration);
+	const brackets = extractValidBrackets(languageId, logger, configuration);
+	const autoClosingPairs = extractValidAutoClosingPairs(languageId, logger, configuration);
+	const surroundingPairs = extractValidSurroundingPairs(languageId, logger, configuration);
+	const colorizedBracketPairs = extractValidColorizedBracketPairs(languageId, logger, configuration);
+	const autoCloseBefore = (typeof configuration.autoCloseBefore === 'string' ? configuration.autoCloseBefore : undefined);
+	const wordPattern = (configuration.wordPattern ? parseRegex(languageId, logger, `wordPattern`, configuration.wordPattern) : undefined);
+	const indentationRules = (configuration.indentationRules ? mapIndentationRules(languageId, logger, configuration.indentationRules) : undefined);
+	let folding: monaco.languages.FoldingRules | undefined = undefined;
+	if (configuration.folding) {
+		const rawMarkers = configuration.folding.markers;
+		const startMarker = (rawMarkers && rawMarkers.start ? parseRegex(languageId, logger, `folding.markers.start`, rawMarkers.start) : undefined);
+		const endMarker = (rawMarkers && rawMarkers.end ? parseRegex(languageId, logger, `folding.markers.end`, rawMarkers.end) : undefined);
+		const markers = (startMarker && endMarker ? { start: startMarker, end: endMarker } : undefined);
+		folding = {
+			offSide: configuration.folding.offSide,
+			markers
+		};
+	}
+	const onEnterRules = extractValidOnEnterRules(languageId, logger, configuration);
+
+	return {
+		comments,
+		brackets,
+		wordPattern,
+		indentationRules,
+		onEnterRules,
+		autoClosingPairs,
+		surroundingPairs,
+		colorizedBracketPairs,
+		autoCloseBefore,
+		folding,
+	};
+}
+
+function extractValidCommentRule(languageId: string, logger: ILogger, configuration: ILanguageConfiguration): monaco.languages.CommentRule | undefined {
+	const source = configuration.comments;
+	if (typeof source === 'undefined') {
+		return undefined;
+	}
+	if (!types.isObject(source)) {
+		logger.warn(`[${languageId}]: language configuration: expected \`comments\` to be an object.`);
+		return undefined;
+	}
+
+	let result: monaco.languages.CommentRule | undefined = undefined;
+	if (typeof source.lineComment !== 'undefined') {
+		if (typeof source.lineComment !== 'string') {
+			logger.warn(`[${languageId}]: language configuration: expected \`comments.lineComment\` to be a string.`);
+		} else {
+			result = result || {};
+			result.lineComment = source.lineComment;
+		}
+	}
+	if (typeof source.blockComment !== 'undefined') {
+		if (!isCharacterPair(source.blockComment)) {
+			logger.warn(`[${languageId}]: language configuration: expected \`comments.blockComment\` to be an array of two strings.`);
+		} else {
+			result = result || {};
+			result.blockComment = source.blockComment;
+		}
+	}
+	return result;
+}
+
+function extractValidBrackets(languageId: string, logger: ILogger, configuration: ILanguageConfiguration): monaco.languages.CharacterPair[] | undefined {
+	const source = configuration.brackets;
+	if (typeof source === 'undefined') {
+		return undefined;
+	}
+	if (!Array.isArray(source)) {
+		logger.warn(`[${languageId}]: language configuration: expected \`brackets\` to be an array.`);
+		return undefined;
+	}
+
+	let result: monaco.languages.CharacterPair[] | undefined = undefined;
+	for (let i = 0, len = source.length; i < len; i++) {
+		const pair = source[i];
+		if (!isCharacterPair(pair)) {
+			logger.warn(`[${languageId}]: language configuration: expected \`brackets[${i}]\` to be an array of two strings.`);
+			continue;
+		}
+
+		result = result || [];
+		result.push(pair);
+	}
+	return result;
+}
+
+function extractValidAutoClosingPairs(languageId: string, logger: ILogger, configuration: ILanguageConfiguration): monaco.languages.IAutoClosingPairConditional[] | undefined {
+	const source = configuration.autoClosingPairs;
+	if (typeof source === 'undefined') {
+		return undefined;
+	}
+	if (!Array.isArray(source)) {
+		logger.warn(`[${languageId}]: language configuration: expected \`autoClosingPairs\` to be an array.`);
+		return undefined;
+	}
+
+	let result: monaco.languages.IAutoClosingPairConditional[] | undefined = undefined;
+	for (let i = 0, len = source.length; i < len; i++) {
+		const pair = source[i];
+		if (Array.isArray(pair)) {
+			if (!isCharacterPair(pair)) {
+				logger.warn(`[${languageId}]: language configuration: expected \`autoClosingPairs[${i}]\` to be an array of two strings or an object.`);
+				continue;
+			}
+			result = result || [];
+			result.push({ open: pair[0], close: pair[1] });
+		} else {
+			if (!types.isObject(pair)) {
+				logger.warn(`[${languageId}]: language configuration: expected \`autoClosingPairs[${i}]\` to be an array of two strings or an object.`);
+				continue;
+			}
+			if (typeof pair.open !== 'string') {
+				logger.warn(`[${languageId}]: language configuration: expected \`autoClosingPairs[${i}].open\` to be a string.`);
+				continue;
+			}
+			if (typeof pair.close !== 'string') {
+				logger.warn(`[${languageId}]: language configuration: expected \`autoClosingPairs[${i}].close\` to be a string.`);
+				continue;
+			}
+			if (typeof pair.notIn !== 'undefined') {
+				if (!isStringArr(pair.notIn)) {
+					logger.warn(`[${languageId}]: language configuration: expected \`autoClosingPairs[${i}].notIn\` to be a string array.`);
+					continue;
+				}
+			}
+			result = result || [];
+			result.push({ open: pair.open, close: pair.close, notIn: pair.notIn });
+		}
+	}
+	return result;
+}
+
+function extractValidSurroundingPairs(languageId: string, logger: ILogger, configuration: ILanguageConfiguration): monaco.languages.IAutoClosingPair[] | undefined {
+	const source = configuration.surroundingPairs;
+	if (typeof source === 'undefined') {
+		return undefined;
+	}
+	if (!Array.isArray(source)) {
+		logger.warn(`[${languageId}]: language configuration: expected \`surroundingPairs\` to be an array.`);
+		return undefined;
+	}
+
+	let result: monaco.languages.IAutoClosingPair[] | undefined = undefined;
+	for (let i = 0, len = source.length; i < len; i++) {
+		const pair = source[i];
+		if (Array.isArray(pair)) {
+			if (!isCharacterPair(pair)) {
+				logger.warn(`[${languageId}]: language configuration: expected \`surroundingPairs[${i}]\` to be an array of two strings or an object.`);
+				continue;
+			}
+			result = result || [];
+			result.push({ open: pair[0], close: pair[1] });
+		} else {
+			if (!types.isObject(pair)) {
+				logger.warn(`[${languageId}]: language configuration: expected \`surroundingPairs[${i}]\` to be an array of two strings or an object.`);
+				continue;
+			}
+			if (typeof pair.open !== 'string') {
+				logger.warn(`[${languageId}]: language configuration: expected \`surroundingPairs[${i}].open\` to be a string.`);
+				continue;
+			}
+			if (typeof pair.close !== 'string') {
+				logger.warn(`[${languageId}]: language configuration: expected \`surroundingPairs[${i}].close\` to be a string.`);
+				continue;
+			}
+			result = result || [];
+			result.push({ open: pair.open, close: pair.close });
+		}
+	}
+	return result;
+}
+
+function extractValidColorizedBracketPairs(languageId: string, logger: ILogger, configuration: ILanguageConfiguration): monaco.languages.CharacterPair[] | undefined {
+	const source = configuration.colorizedBracketPairs;
+	if (typeof source === 'undefined') {
+		return undefined;
+	}
+	if (!Array.isArray(source)) {
+		logger.warn(`[${languageId}]: language configuration: expected \`colorizedBracketPairs\` to be an array.`);
+		return undefined;
+	}
+
+	const result: monaco.languages.CharacterPair[] = [];
+	for (let i = 0, len = source.length; i < len; i++) {
+		const pair = source[i];
+		if (!isCharacterPair(pair)) {
+			logger.warn(`[${languageId}]: language configuration: expected \`colorizedBracketPairs[${i}]\` to be an array of two strings.`);
+			continue;
+		}
+		result.push([pair[0], pair[1]]);
+
+	}
+	return result;
+}
+
+function extractValidOnEnterRules(languageId: string, logger: ILogger, configuration: ILanguageConfiguration): monaco.languages.OnEnterRule[] | undefined {
+	const source = configuration.onEnterRules;
+	if (typeof source === 'undefined') {
+		return undefined;
+	}
+	if (!Array.isArray(source)) {
+		logger.warn(`[${languageId}]: language configuration: expected \`onEnterRules\` to be an array.`);
+		return undefined;
+	}
+
+	let result: monaco.languages.OnEnterRule[] | undefined = undefined;
+	for (let i = 0, len = source.length; i < len; i++) {
+		const onEnterRule = source[i];
+		if (!types.isObject(onEnterRule)) {
+			logger.warn(`[${languageId}]: language configuration: expected \`onEnterRules[${i}]\` to be an object.`);
+			continue;
+		}
+		if (!types.isObject(onEnterRule.action)) {
+			logger.warn(`[${languageId}]: language configuration: expected \`onEnterRules[${i}].action\` to be an object.`);
+			continue;
+		}
+		let indentAction: monaco.languages.IndentAction;
+		if (onEnterRule.action.indent === 'none') {
+			indentAction = monaco.languages.IndentAction.None;
+		} else if (onEnterRule.action.indent === 'indent') {
+			indentAction = monaco.languages.IndentAction.Indent;
+		} else if (onEnterRule.action.indent === 'indentOutdent') {
+			indentAction = monaco.languages.IndentAction.IndentOutdent;
+		} else if (onEnterRule.action.indent === 'outdent') {
+			indentAction = monaco.languages.IndentAction.Outdent;
+		} else {
+			logger.warn(`[${languageId}]: language configuration: expected \`onEnterRules[${i}].action.indent\` to be 'none', 'indent', 'indentOutdent' or 'outdent'.`);
+			continue;
+		}
+		const action: monaco.languages.EnterAction = { indentAction };
+		if (onEnterRule.action.appendText) {
+			if (typeof onEnterRule.action.appendText === 'string') {
+				action.appendText = onEnterRule.action.appendText;
+			} else {
+				logger.warn(`[${languageId}]: language configuration: expected \`onEnterRules[${i}].action.appendText\` to be undefined or a string.`);
+			}
+		}
+		if (onEnterRule.action.removeText) {
+			if (typeof onEnterRule.action.removeText === 'number') {
+				action.removeText = onEnterRule.action.removeText;
+			} else {
+				logger.warn(`[${languageId}]: language configuration: expected \`onEnterRules[${i}].action.removeText\` to be undefined or a number.`);
+			}
+		}
+		const beforeText = parseRegex(languageId, logger, `onEnterRules[${i}].beforeText`, onEnterRule.beforeText);
+		if (!beforeText) {
+			continue;
+		}
+		const resultingOnEnterRule: monaco.languages.OnEnterRule = { beforeText, action };
+		if (onEnterRule.afterText) {
+			const afterText = parseRegex(languageId, logger, `onEnterRules[${i}].afterText`, onEnterRule.afterText);
+			if (afterText) {
+				resultingOnEnterRule.afterText = afterText;
+			}
+		}
+		if (onEnterRule.previousLineText) {
+			const previousLineText = parseRegex(languageId, logger, `onEnterRules[${i}].previousLineText`, onEnterRule.previousLineText);
+			if (previousLineText) {
+				resultingOnEnterRule.previousLineText = previousLineText;
+			}
+		}
+		result = result || [];
+		result.push(resultingOnEnterRule);
+	}
+
+	return result;
+}
+
+function parseRegex(languageId: string, logger: ILogger, confPath: string, value: string | IRegExp): RegExp | undefined {
+	if (typeof value === 'string') {
+		try {
+			return new RegExp(value, '');
+		} catch (err) {
+			logger.warn(`[${languageId}]: Invalid regular expression in \`${confPath}\`: `, err);
+			return undefined;
+		}
+	}
+	if (types.isObject(value)) {
+		if (typeof value.pattern !== 'string') {
+			logger.warn(`[${languageId}]: language configuration: expected \`${confPath}.pattern\` to be a string.`);
+			return undefined;
+		}
+		if (typeof value.flags !== 'undefined' && typeof value.flags !== 'string') {
+			logger.warn(`[${languageId}]: language configuration: expected \`${confPath}.flags\` to be a string.`);
+			return undefined;
+		}
+		try {
+			return new RegExp(value.pattern, value.flags);
+		} catch (err) {
+			logger.warn(`[${languageId}]: Invalid regular expression in \`${confPath}\`: `, err);
+			return undefined;
+		}
+	}
+	logger.warn(`[${languageId}]: language configuration: expected \`${confPath}\` to be a string or an object.`);
+	return undefined;
+}
+
+function mapIndentationRules(languageId: string, logger: ILogger, indentationRules: IIndentationRules): monaco.languages.IndentationRule | undefined {
+	const increaseIndentPattern = parseRegex(languageId, logger, `indentationRules.increaseIndentPattern`, indentationRules.increaseIndentPattern);
+	if (!increaseIndentPattern) {
+		return undefined;
+	}
+	const decreaseIndentPattern = parseRegex(languageId, logger, `indentationRules.decreaseIndentPattern`, indentationRules.decreaseIndentPattern);
+	if (!decreaseIndentPattern) {
+		return undefined;
+	}
+
+	const result: monaco.languages.IndentationRule = {
+		increaseIndentPattern: increaseIndentPattern,
+		decreaseIndentPattern: decreaseIndentPattern
+	};
+
+	if (indentationRules.indentNextLinePattern) {
+		result.indentNextLinePattern = parseRegex(languageId, logger, `indentationRules.indentNextLinePattern`, indentationRules.indentNextLinePattern);
+	}
+	if (indentationRules.unIndentedLinePattern) {
+		result.unIndentedLinePattern = parseRegex(languageId, logger, `indentationRules.unIndentedLinePattern`, indentationRules.unIndentedLinePattern);
+	}
+
+	return result;
+}
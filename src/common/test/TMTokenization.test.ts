@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import * as vscodeTextmate from 'vscode-textmate';
+import type { IGrammar, IRawTheme, ITokenizeLineResult2, StackElement } from 'vscode-textmate';
+import { TokenMetadata } from '../../support/encodedTokenAttributes';
+import { ITokenizationLineLimit, TMTokenization, TMTokenizationSupportWithLineLimit } from '../TMTokenization';
+import { loadTestGrammar, testTheme } from './testGrammar';
+
+suite('TMTokenizationSupportWithLineLimit', () => {
+
+	const encodedLanguageId = 1;
+	let grammar: IGrammar;
+	let colorMap: string[];
+	let tokenization: TMTokenization;
+
+	suiteSetup(async () => {
+		({ grammar, colorMap } = await loadTestGrammar());
+	});
+
+	setup(() => {
+		tokenization = new TMTokenization(grammar, vscodeTextmate.INITIAL, false);
+	});
+
+	teardown(() => {
+		tokenization.dispose();
+	});
+
+	function tokenize(line: string, lineLimit: ITokenizationLineLimit, state: StackElement = vscodeTextmate.INITIAL) {
+		const support = new TMTokenizationSupportWithLineLimit(encodedLanguageId, tokenization, lineLimit);
+		const r = support.tokenizeEncoded(line, state);
+		const tokens: { offset: number; color: string }[] = [];
+		for (let i = 0; i < r.tokens.length; i += 2) {
+			tokens.push({ offset: r.tokens[i], color: colorMap[TokenMetadata.getForeground(r.tokens[i + 1])] });
+		}
+		return { tokens, endState: r.endState };
+	}
+
+	test('tokenizes lines below the limit', () => {
+		const { tokens, endState } = tokenize('if "a', { maxLineLength: 10, partial: false });
+		assert.deepStrictEqual(tokens, [
+			{ offset: 0, color: '#0000FF' },
+			{ offset: 2, color: '#000000' },
+			{ offset: 3, color: '#A31515' }
+		]);
+		// the string continues on the next line
+		assert.notStrictEqual(endState, vscodeTextmate.INITIAL);
+	});
+
+	test('leaves long lines plain', () => {
+		const { tokens, endState } = tokenize('if "a" else', { maxLineLength: 5, partial: false });
+		assert.deepStrictEqual(tokens, [{ offset: 0, color: '#000000' }]);
+		assert.strictEqual(endState, vscodeTextmate.INITIAL);
+	});
+
+	test('tokenizes the beginning of long lines in partial mode', () => {
+		const { tokens } = tokenize('if "a" else', { maxLineLength: 5, partial: true });
+		assert.deepStrictEqual(tokens, [
+			{ offset: 0, color: '#0000FF' },
+			{ offset: 2, color: '#000000' },
+			{ offset: 3, color: '#A31515' }
+		]);
+	});
+
+	test('continues after long lines with their start state in partial mode', () => {
+		// the cut line ends within a string, the next line still starts outside of it
+		const { endState } = tokenize('if "a" else', { maxLineLength: 5, partial: true });
+		assert.strictEqual(endState, vscodeTextmate.INITIAL);
+
+		const inString = tokenize('"a', { maxLineLength: 10, partial: false }).endState;
+		assert.strictEqual(tokenize('else "a" if', { maxLineLength: 5, partial: true }, <StackElement>inString).endState, inString);
+	});
+
+	test('applies the limit from the line length on', () => {
+		assert.strictEqual(tokenize('if "a', { maxLineLength: 5, partial: false }).tokens.length, 1);
+		assert.strictEqual(tokenize('if "', { maxLineLength: 5, partial: false }).tokens.length, 3);
+	});
+});
+
+suite('TMTokenization', () => {
+
+	const timeLimit = 1;
+	const otherTheme: IRawTheme = {
+		settings: [
+			testTheme.settings[0],
+			{ scope: 'keyword', settings: { foreground: '#af00db' } }
+		]
+	};
+
+	let grammar: IGrammar;
+	let registry: vscodeTextmate.Registry;
+	let tokenization: TMTokenization;
+
+	suiteSetup(async () => {
+		({ grammar, registry } = await loadTestGrammar());
+	});
+
+	setup(() => {
+		registry.setTheme(testTheme);
+		// Lines time out within the time limit, but not within the longer limit of the background retry
+		const slowGrammar = <IGrammar>{
+			tokenizeLine2(line: string, state: StackElement, limit?: number): ITokenizeLineResult2 {
+				const result = grammar.tokenizeLine2(line, state);
+				return limit === timeLimit ? { ...result, stoppedEarly: true } : result;
+			}
+		};
+		tokenization = new TMTokenization(slowGrammar, vscodeTextmate.INITIAL, false, timeLimit);
+	});
+
+	teardown(() => {
+		tokenization.dispose();
+	});
+
+	function firstColor(line: string): string {
+		const tokens = tokenization.tokenizeEncoded(line, vscodeTextmate.INITIAL).tokens;
+		return registry.getColorMap()[TokenMetadata.getForeground(tokens[1])];
+	}
+
+	function recover(): Promise<void> {
+		return new Promise(resolve => tokenization.onDidRecover(resolve));
+	}
+
+	test('tokenizes lines that timed out in the background', async () => {
+		const recovered = recover();
+		tokenization.tokenizeEncoded('if "a', vscodeTextmate.INITIAL);
+		await recovered;
+		const r = tokenization.tokenizeEncoded('if "a', vscodeTextmate.INITIAL);
+		assert.strictEqual(registry.getColorMap()[TokenMetadata.getForeground(r.tokens[1])], '#0000FF');
+		assert.notStrictEqual(r.endState, vscodeTextmate.INITIAL);
+	});
+
+	test('tokenizes recovered lines again with a new theme', async () => {
+		const recovered = recover();
+		tokenization.tokenizeEncoded('if', vscodeTextmate.INITIAL);
+		await recovered;
+		assert.strictEqual(firstColor('if'), '#0000FF');
+
+		registry.setTheme(otherTheme);
+		tokenization.clearRecoveredLines();
+		const recoveredAgain = recover();
+		assert.strictEqual(firstColor('if'), '#AF00DB');
+		await recoveredAgain;
+		assert.strictEqual(firstColor('if'), '#AF00DB');
+	});
+});
@@ -0,0 +1,47 @@
+import * as fs from 'fs';
+import * as vscodeOniguruma from 'vscode-oniguruma';
+import * as vscodeTextmate from 'vscode-textmate';
+import type { IGrammar, IOnigLib, IRawTheme } from 'vscode-textmate';
+
+const grammar = {
+	scopeName: 'source.test',
+	patterns: [
+		{ match: '\\b(if|else)\\b', name: 'keyword.control.test' },
+		{ begin: '"', end: '"', name: 'string.quoted.double.test' }
+	]
+};
+
+export const testTheme: IRawTheme = {
+	settings: [
+		{ settings: { foreground: '#000000', background: '#ffffff' } },
+		{ scope: 'keyword', settings: { foreground: '#0000ff', fontStyle: 'bold' } },
+		{ scope: 'string', settings: { foreground: '#a31515', fontStyle: 'italic' } }
+	]
+};
+
+let onigLib: Promise<IOnigLib> | undefined;
+
+function getOnigLib(): Promise<IOnigLib> {
+	if (!onigLib) {
+		// Oniguruma can only be loaded once per process
+		const wasm = fs.readFileSync(require.resolve('vscode-oniguruma/release/onig.wasm'));
+		onigLib = vscodeOniguruma.loadWASM(wasm.buffer.slice(wasm.byteOffset, wasm.byteOffset + wasm.byteLength)).then(() => ({
+			createOnigScanner: (sources: string[]) => vscodeOniguruma.createOnigScanner(sources),
+			createOnigString: (str: string) => vscodeOniguruma.createOnigString(str)
+		}));
+	}
+	return onigLib;
+}
+
+/**
+ * Loads a grammar matching the keywords `if` and `else` and double quoted strings, which may span lines.
+ */
+export async function loadTestGrammar(theme: IRawTheme = testTheme): Promise<{ grammar: IGrammar; colorMap: string[]; registry: vscodeTextmate.Registry }> {
+	const registry = new vscodeTextmate.Registry({
+		onigLib: getOnigLib(),
+		theme,
+		loadGrammar: async scopeName => scopeName === grammar.scopeName ? vscodeTextmate.parseRawGrammar(JSON.stringify(grammar), 'test.tmLanguage.json') : null
+	});
+	const result = await registry.loadGrammarWithConfiguration(grammar.scopeName, 1, {});
+	return { grammar: result!, colorMap: registry.getColorMap(), registry };
+}
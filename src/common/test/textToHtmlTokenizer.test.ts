@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import type { IGrammar } from 'vscode-textmate';
+import { generateTokensCSSForColorMap, tokenizeToHtml } from '../textToHtmlTokenizer';
+import { loadTestGrammar } from './testGrammar';
+
+suite('tokenizeToHtml', () => {
+
+	let grammar: IGrammar;
+	let colorMap: string[];
+
+	suiteSetup(async () => {
+		({ grammar, colorMap } = await loadTestGrammar());
+	});
+
+	test('styles the tokens inline', () => {
+		assert.strictEqual(tokenizeToHtml('if "a"', grammar, colorMap),
+			'<div style="color: #000000;background-color: #FFFFFF;">'
+			+ '<span style="color: #0000FF;font-weight: bold;">if</span>'
+			+ '<span style="color: #000000;">&#160;</span>'
+			+ '<span style="color: #A31515;font-style: italic;">"a"</span>'
+			+ '</div>'
+		);
+	});
+
+	test('uses the classes of Monaco', () => {
+		const keyword = colorMap.indexOf('#0000FF');
+		const string = colorMap.indexOf('#A31515');
+		assert.strictEqual(tokenizeToHtml('if "a"', grammar, colorMap, { mode: 'class' }),
+			'<div class="monaco-tokenized-source">'
+			+ `<span class="mtk${keyword} mtkb">if</span>`
+			+ '<span class="mtk1">&#160;</span>'
+			+ `<span class="mtk${string} mtki">"a"</span>`
+			+ '</div>'
+		);
+	});
+
+	test('continues the state across lines', () => {
+		const html = tokenizeToHtml('"a\nif"\r\nif', grammar, colorMap, { mode: 'class' });
+		const string = colorMap.indexOf('#A31515');
+		const keyword = colorMap.indexOf('#0000FF');
+		assert.strictEqual(html,
+			'<div class="monaco-tokenized-source">'
+			+ `<span class="mtk${string} mtki">"a</span><br/>`
+			+ `<span class="mtk${string} mtki">if"</span><br/>`
+			+ `<span class="mtk${keyword} mtkb">if</span>`
+			+ '</div>'
+		);
+	});
+
+	test('escapes the text and expands tabs', () => {
+		assert.strictEqual(tokenizeToHtml('a\t<b>&', null, colorMap, { mode: 'class', tabSize: 2 }),
+			'<div class="monaco-tokenized-source"><span class="mtk1">a&#160;&lt;b&gt;&amp;</span></div>'
+		);
+		assert.strictEqual(tokenizeToHtml('\ta', null, colorMap, { mode: 'class' }),
+			'<div class="monaco-tokenized-source"><span class="mtk1">&#160;&#160;&#160;&#160;a</span></div>'
+		);
+	});
+
+	test('generates the CSS for the classes', () => {
+		const css = generateTokensCSSForColorMap(['', '#000000', '#FFFFFF']).split('\n');
+		assert.deepStrictEqual(css.slice(0, 3), [
+			'.mtk1 { color: #000000; }',
+			'.mtk2 { color: #FFFFFF; }',
+			'.mtki { font-style: italic; }'
+		]);
+	});
+});
@@ -0,0 +1,180 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { IGrammar, StackElement } from 'vscode-textmate';
+import { CharCode } from '../support/utils/charCode';
+import { ColorId, FontStyle, MetadataConsts, TokenMetadata } from '../support/encodedTokenAttributes';
+
+export interface IColorizeToHtmlOptions {
+	/**
+	 * `inline` (default) styles the tokens with `style` attributes. `class` uses the classes of
+	 * Monaco (`mtk<colorId>`, `mtki`, `mtkb`, `mtku` and `mtks`), see `getTokenColorsCss`.
+	 */
+	mode?: 'inline' | 'class';
+	/**
+	 * Tabs are replaced with spaces up to the next multiple of the tab size. Defaults to 4.
+	 */
+	tabSize?: number;
+}
+
+/**
+ * Colorizes the text with the grammar, or as plain text if there is none.
+ */
+export function tokenizeToHtml(text: string, grammar: IGrammar | null, colorMap: readonly string[], options: IColorizeToHtmlOptions = {}): string {
+	const useClasses = options.mode === 'class';
+	const tabSize = options.tabSize ?? 4;
+	const lines = text.split(/\r\n|\r|\n/);
+
+	let state: StackElement | null = null;
+	const result: string[] = [];
+	for (const line of lines) {
+		if (grammar) {
+			const r = grammar.tokenizeLine2(line, state);
+			state = r.ruleStack;
+			result.push(tokenizeLineToHTML(line, r.tokens, colorMap, tabSize, useClasses));
+		} else {
+			const tokens = new Uint32Array([0, ColorId.DefaultForeground << MetadataConsts.FOREGROUND_OFFSET]);
+			result.push(tokenizeLineToHTML(line, tokens, colorMap, tabSize, useClasses));
+		}
+	}
+
+	if (useClasses) {
+		return `<div class="monaco-tokenized-source">${result.join('<br/>')}</div>`;
+	}
+	const foreground = colorMap[ColorId.DefaultForeground];
+	const background = colorMap[ColorId.DefaultBackground];
+	return `<div style="color: ${foreground};background-color: ${background};">${result.join('<br/>')}</div>`;
+}
+
+function tokenizeLineToHTML(text: string, tokens: Uint32Array, colorMap: readonly string[], tabSize: number, useClasses: boolean): string {
+	let result = '';
+	let charIndex = 0;
+	let column = 0;
+
+	for (let tokenIndex = 0, tokenCount = (tokens.length >>> 1); tokenIndex < tokenCount; tokenIndex++) {
+		const tokenEndIndex = (tokenIndex + 1 < tokenCount ? tokens[(tokenIndex + 1) << 1] : text.length);
+		if (tokenEndIndex <= charIndex) {
+			continue;
+		}
+
+		let partContent = '';
+		for (; charIndex < tokenEndIndex; charIndex++) {
+			const charCode = text.charCodeAt(charIndex);
+			switch (charCode) {
+				case CharCode.Tab: {
+					let insertSpacesCount = tabSize - column % tabSize;
+					column += insertSpacesCount;
+					while (insertSpacesCount > 0) {
+						partContent += '&#160;';
+						insertSpacesCount--;
+					}
+					break;
+				}
+				case CharCode.LessThan:
+					partContent += '&lt;';
+					column++;
+					break;
+				case CharCode.GreaterThan:
+					partContent += '&gt;';
+					column++;
+					break;
+				case CharCode.Ampersand:
+					partContent += '&amp;';
+					column++;
+					break;
+				case CharCode.Null:
+					partContent += '&#00;';
+					column++;
+					break;
+				case CharCode.UTF8_BOM:
+				case CharCode.LINE_SEPARATOR:
+				case CharCode.PARAGRAPH_SEPARATOR:
+				case CharCode.NEXT_LINE:
+					partContent += '\ufffd';
+					column++;
+					break;
+				case CharCode.CarriageReturn:
+					// zero width space, because carriage return would introduce a line break
+					partContent += '&#8203;';
+					column++;
+					break;
+				case CharCode.Space:
+					partContent += '&#160;';
+					column++;
+					break;
+				default:
+					partContent += String.fromCharCode(charCode);
+					column++;
+			}
+		}
+
+		const metadata = tokens[(tokenIndex << 1) + 1];
+		if (useClasses) {
+			result += `<span class="${getClassNameFromMetadata(metadata)}">${partContent}</span>`;
+		} else {
+			result += `<span style="${getInlineStyleFromMetadata(metadata, colorMap)}">${partContent}</span>`;
+		}
+	}
+
+	return result;
+}
+
+function getClassNameFromMetadata(metadata: number): string {
+	const fontStyle = TokenMetadata.getFontStyle(metadata);
+	let className = 'mtk' + TokenMetadata.getForeground(metadata);
+	if (fontStyle & FontStyle.Italic) {
+		className += ' mtki';
+	}
+	if (fontStyle & FontStyle.Bold) {
+		className += ' mtkb';
+	}
+	if (fontStyle & FontStyle.Underline) {
+		className += ' mtku';
+	}
+	if (fontStyle & FontStyle.Strikethrough) {
+		className += ' mtks';
+	}
+	return className;
+}
+
+function getInlineStyleFromMetadata(metadata: number, colorMap: readonly string[]): string {
+	const foreground = TokenMetadata.getForeground(metadata);
+	const fontStyle = TokenMetadata.getFontStyle(metadata);
+
+	let result = `color: ${colorMap[foreground]};`;
+	if (fontStyle & FontStyle.Italic) {
+		result += 'font-style: italic;';
+	}
+	if (fontStyle & FontStyle.Bold) {
+		result += 'font-weight: bold;';
+	}
+	let textDecoration = '';
+	if (fontStyle & FontStyle.Underline) {
+		textDecoration += ' underline';
+	}
+	if (fontStyle & FontStyle.Strikethrough) {
+		textDecoration += ' line-through';
+	}
+	if (textDecoration) {
+		result += `text-decoration:${textDecoration};`;
+	}
+	return result;
+}
+
+/**
+ * The CSS rules for the classes used by `tokenizeToHtml` in `class` mode.
+ */
+export function generateTokensCSSForColorMap(colorMap: readonly string[]): string {
+	const rules: string[] = [];
+	for (let i = 1, len = colorMap.length; i < len; i++) {
+		rules.push(`.mtk${i} { color: ${colorMap[i]}; }`);
+	}
+	rules.push('.mtki { font-style: italic; }');
+	rules.push('.mtkb { font-weight: bold; }');
+	rules.push('.mtku { text-decoration: underline; text-underline-position: under; }');
+	rules.push('.mtks { text-decoration: line-through; }');
+	rules.push('.mtks.mtku { text-decoration: underline line-through; text-underline-position: under; }');
+	return rules.join('\n');
+}
@@ -1,3 +1,11 @@
-export { TextMateService } from './browser/browserTextMateService';
+export { TextMateService, IBrowserTextMateServiceOptions, OnigurumaWASMSource } from './browser/browserTextMateService';
 export { ColorThemeData } from './support/colorThemeData';
+export { validateTheme, IThemeDiagnostic, ThemeDiagnosticSeverity, ColorThemeLoadError } from './support/colorThemeValidation';
 export { IExtensionManifest } from './support/extensions';
+export { IResourceLoader, FetchResourceLoader } from './support/resourceLoader';
+export { ILogger, ConsoleLogger } from './support/logger';
+export { ITextMateServiceOptions, IColorThemeInfo, IGrammarRegistration, ITokenizationTimeOutEvent } from './browser/textMate';
+export { IGrammarLoadEvent, IGrammarLoadFailureEvent, IMissingScopeEvent } from './common/TMGrammarFactory';
+export { IColorizeToHtmlOptions } from './common/textToHtmlTokenizer';
+export { InspectEditorTokensController } from './browser/inspectEditorTokens';
+export { IWorkbenchColorTheme, IColorCustomizations, IThemeScopedColorCustomizations, ITokenColorCustomizations, IThemeScopedTokenColorCustomizations, ISemanticTokenColorCustomizationRules, ITextMateThemingRule } from './support/workbenchThemeService';
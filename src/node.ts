@@ -0,0 +1,10 @@
+export { NodeTextMateService, INodeTextMateServiceOptions } from './node/nodeTextMateService';
+export { FileResourceLoader } from './node/fileResourceLoader';
+export { ColorThemeData } from './support/colorThemeData';
+export { validateTheme, IThemeDiagnostic, ThemeDiagnosticSeverity, ColorThemeLoadError } from './support/colorThemeValidation';
+export { IExtensionManifest } from './support/extensions';
+export { IResourceLoader } from './support/resourceLoader';
+export { ILogger, ConsoleLogger } from './support/logger';
+export { IColorThemeInfo } from './browser/textMate';
+export { IColorizeToHtmlOptions } from './common/textToHtmlTokenizer';
+export { IWorkbenchColorTheme, ITextMateThemingRule } from './support/workbenchThemeService';
@@ -0,0 +1,26 @@
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+import { promises as fs } from 'fs';
+import { IResourceLoader } from '../support/resourceLoader';
+
+/**
+ * Resource loader reading `file` URIs from the file system.
+ */
+export class FileResourceLoader implements IResourceLoader {
+
+	public async readFile(resource: monaco.Uri): Promise<string> {
+		return fs.readFile(toFsPath(resource), 'utf8');
+	}
+
+	public async readBinary(resource: monaco.Uri): Promise<ArrayBuffer> {
+		const buffer = await fs.readFile(toFsPath(resource));
+		return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+	}
+}
+
+function toFsPath(resource: monaco.Uri): string {
+	if (resource.scheme !== 'file') {
+		throw new Error(`Unable to load ${resource.toString(true)}: only file URIs are supported.`);
+	}
+	return resource.fsPath;
+}
@@ -0,0 +1,274 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { URI } from 'vscode-uri';
+import type { IGrammar, IOnigLib } from 'vscode-textmate';
+import { IColorThemeInfo } from '../browser/textMate';
+import { IValidGrammarDefinition } from '../common/TMScopeRegistry';
+import { TMGrammarFactory } from '../common/TMGrammarFactory';
+import { ITMSyntaxExtensionPoint, toValidGrammarDefinition } from '../common/TMGrammars';
+import { generateTokensCSSForColorMap, IColorizeToHtmlOptions, tokenizeToHtml } from '../common/textToHtmlTokenizer';
+import { ColorThemeData, readExtensionColorThemes } from '../support/colorThemeData';
+import { LanguageId } from '../support/encodedTokenAttributes';
+import { IExtensionManifest } from '../support/extensions';
+import { localizeManifest } from '../support/extensionNls';
+import { ConsoleLogger, ILogger } from '../support/logger';
+import { IResourceLoader } from '../support/resourceLoader';
+import { Disposable } from '../support/utils/lifecycle';
+import * as resources from '../support/utils/resources';
+import { IWorkbenchColorTheme } from '../support/workbenchThemeService';
+import { FileResourceLoader } from './fileResourceLoader';
+
+export interface INodeTextMateServiceOptions {
+	/**
+	 * Loader used for extension manifests, grammars and themes. Defaults to reading from the file system.
+	 */
+	resourceLoader?: IResourceLoader;
+
+	/**
+	 * Receives errors, warnings and traces of the service. Defaults to the console.
+	 */
+	logger?: ILogger;
+
+	/**
+	 * The path of the Oniguruma WASM binary or the binary itself. Defaults to the `onig.wasm` of the
+	 * installed `vscode-oniguruma` package.
+	 */
+	onigurumaWASM?: string | ArrayBuffer;
+
+	/**
+	 * The locale of the `package.nls.<locale>.json` files that localize the `%key%` placeholders of
+	 * the extension manifests, e.g. `de` or `zh-cn`. Without a locale, `package.nls.json` is used.
+	 */
+	locale?: string;
+}
+
+interface IExtensionEntry {
+	readonly location: URI;
+	readonly manifest: IExtensionManifest;
+	readonly colorThemes: ColorThemeData[];
+}
+
+/**
+ * Grammars and themes for Node.js, e.g. for tests, server side rendering or highlighting at build
+ * time. Does not depend on the Monaco runtime.
+ */
+export class NodeTextMateService extends Disposable {
+
+	private readonly _resourceLoader: IResourceLoader;
+	private readonly _logger: ILogger;
+	private readonly _onigurumaWASM: string | ArrayBuffer | undefined;
+	private readonly _locale: string | undefined;
+	private readonly _extensions: IExtensionEntry[];
+	private readonly _encodedLanguageIds: Map<string, LanguageId>;
+	private _grammarFactory: Promise<TMGrammarFactory> | null;
+	private _loadedGrammarFactory: TMGrammarFactory | null;
+	private _colorTheme: ColorThemeData | null;
+
+	constructor(options: INodeTextMateServiceOptions = {}) {
+		super();
+		this._resourceLoader = options.resourceLoader ?? new FileResourceLoader();
+		this._logger = options.logger ?? new ConsoleLogger();
+		this._onigurumaWASM = options.onigurumaWASM;
+		this._locale = options.locale;
+		this._extensions = [];
+		this._encodedLanguageIds = new Map();
+		this._grammarFactory = null;
+		this._loadedGrammarFactory = null;
+		this._colorTheme = null;
+	}
+
+	public override dispose(): void {
+		this._disposeGrammarFactory();
+		super.dispose();
+	}
+
+	/**
+	 * Adds the extensions in the given directories.
+	 */
+	public async init(extensions: string[]): Promise<void> {
+		const entries = await Promise.all(extensions.map(location => this._readExtension(location)));
+		this._extensions.push(...entries);
+		this._disposeGrammarFactory();
+	}
+
+	private async _readExtension(location: string): Promise<IExtensionEntry> {
+		const extensionLocation = URI.file(path.resolve(location));
+		const manifest: IExtensionManifest = JSON.parse(await this._resourceLoader.readFile(resources.joinPath(extensionLocation, 'package.json')));
+		await localizeManifest(manifest, extensionLocation, this._resourceLoader, this._locale, this._logger);
+		return {
+			location: extensionLocation,
+			manifest,
+			colorThemes: readExtensionColorThemes(extensionLocation, manifest, this._logger)
+		};
+	}
+
+	/**
+	 * The ids of the languages contributed by the extensions.
+	 */
+	public getLanguages(): string[] {
+		const languageNames: string[] = [];
+		for (const entry of this._extensions) {
+			for (const language of entry.manifest.contributes?.languages || []) {
+				if (language && typeof language.id === 'string' && language.id.length > 0 && !languageNames.includes(language.id)) {
+					languageNames.push(language.id);
+				}
+			}
+			for (const grammar of this._getGrammars(entry)) {
+				if (grammar.language && !languageNames.includes(grammar.language)) {
+					languageNames.push(grammar.language);
+				}
+			}
+		}
+		return languageNames;
+	}
+
+	public getAvailableThemes(): IColorThemeInfo[] {
+		return this._getColorThemes().map(theme => ({
+			id: theme.id,
+			label: theme.label,
+			uiTheme: theme.baseTheme,
+			description: theme.description
+		}));
+	}
+
+	public async setThemeById(id: string): Promise<void> {
+		const colorTheme = this._getColorThemes().find(theme => theme.id === id);
+		if (!colorTheme) {
+			throw new Error(`Unknown color theme: ${id}`);
+		}
+		await colorTheme.ensureLoaded(this._resourceLoader, this._logger);
+		this._colorTheme = colorTheme;
+		if (this._grammarFactory) {
+			const grammarFactory = await this._grammarFactory;
+			grammarFactory.setTheme({ name: colorTheme.label, settings: colorTheme.tokenColors }, colorTheme.tokenColorMap);
+		}
+	}
+
+	public getColorTheme(): IWorkbenchColorTheme | null {
+		return this._colorTheme;
+	}
+
+	public async createGrammar(languageId: string): Promise<IGrammar | null> {
+		const grammarFactory = await this._getOrCreateGrammarFactory();
+		if (!grammarFactory.has(languageId)) {
+			return null;
+		}
+		const { grammar } = await grammarFactory.createGrammar(languageId, this._getEncodedLanguageId(languageId));
+		return grammar;
+	}
+
+	/**
+	 * Colorizes the code with the grammar of the language and the current theme.
+	 */
+	public async colorizeToHtml(code: string, languageId: string, options?: IColorizeToHtmlOptions): Promise<string> {
+		const grammar = await this.createGrammar(languageId);
+		return tokenizeToHtml(code, grammar, this._getTokenColorMap(), options);
+	}
+
+	/**
+	 * The CSS for the HTML of `colorizeToHtml` in `class` mode, with the colors of the current theme.
+	 */
+	public getTokenColorsCss(): string {
+		return generateTokensCSSForColorMap(this._getTokenColorMap());
+	}
+
+	private _getTokenColorMap(): string[] {
+		return this._colorTheme?.tokenColorMap ?? this._loadedGrammarFactory?.getColorMap() ?? [];
+	}
+
+	private _getColorThemes(): ColorThemeData[] {
+		return this._extensions.flatMap(entry => entry.colorThemes);
+	}
+
+	private _getGrammars(entry: IExtensionEntry): ITMSyntaxExtensionPoint[] {
+		return (entry.manifest.contributes?.grammars || []) as ITMSyntaxExtensionPoint[];
+	}
+
+	/**
+	 * Language ids are encoded in the order the languages are first used, like Monaco does.
+	 */
+	private _getEncodedLanguageId(languageId: string): LanguageId {
+		let encodedLanguageId = this._encodedLanguageIds.get(languageId);
+		if (encodedLanguageId === undefined) {
+			encodedLanguageId = this._encodedLanguageIds.size + LanguageId.PlainText + 1;
+			this._encodedLanguageIds.set(languageId, encodedLanguageId);
+		}
+		return encodedLanguageId;
+	}
+
+	private _disposeGrammarFactory(): void {
+		if (this._grammarFactory) {
+			this._grammarFactory.then(grammarFactory => grammarFactory.dispose());
+			this._grammarFactory = null;
+			this._loadedGrammarFactory = null;
+		}
+	}
+
+	private _getOrCreateGrammarFactory(): Promise<TMGrammarFactory> {
+		if (!this._grammarFactory) {
+			const grammarFactory = this._createGrammarFactory();
+			this._grammarFactory = grammarFactory;
+			grammarFactory.then(loaded => {
+				if (this._grammarFactory === grammarFactory) {
+					this._loadedGrammarFactory = loaded;
+				}
+			}, () => { /* reported to the callers */ });
+		}
+		return this._grammarFactory;
+	}
+
+	private async _createGrammarFactory(): Promise<TMGrammarFactory> {
+		const languageNames = this.getLanguages();
+		const grammarDefinitions: IValidGrammarDefinition[] = [];
+		for (const entry of this._extensions) {
+			for (const grammar of this._getGrammars(entry)) {
+				grammarDefinitions.push(toValidGrammarDefinition(grammar, resources.joinPath(entry.location, grammar.path), undefined, languageNames, languageId => this._getEncodedLanguageId(languageId)));
+			}
+		}
+
+		const [vscodeTextmate, vscodeOniguruma] = await Promise.all([import('vscode-textmate'), this._loadVSCodeOniguruma()]);
+		const onigLib: Promise<IOnigLib> = Promise.resolve({
+			createOnigScanner: (sources: string[]) => vscodeOniguruma.createOnigScanner(sources),
+			createOnigString: (str: string) => vscodeOniguruma.createOnigString(str)
+		});
+
+		const grammarFactory = new TMGrammarFactory({
+			logTrace: (msg: string) => this._logger.trace(msg),
+			logError: (msg: string, err: any) => this._logger.error(msg, err),
+			readFile: resource => this._resourceLoader.readFile(resource)
+		}, grammarDefinitions, vscodeTextmate, onigLib);
+
+		if (this._colorTheme) {
+			grammarFactory.setTheme({ name: this._colorTheme.label, settings: this._colorTheme.tokenColors }, this._colorTheme.tokenColorMap);
+		}
+		return grammarFactory;
+	}
+
+	private _vscodeOniguruma: Promise<typeof import('vscode-oniguruma')> | null = null;
+	private _loadVSCodeOniguruma(): Promise<typeof import('vscode-oniguruma')> {
+		if (!this._vscodeOniguruma) {
+			this._vscodeOniguruma = this._doLoadVSCodeOniguruma();
+		}
+		return this._vscodeOniguruma;
+	}
+
+	private async _doLoadVSCodeOniguruma(): Promise<typeof import('vscode-oniguruma')> {
+		const vscodeOniguruma = await import('vscode-oniguruma');
+		const source = this._onigurumaWASM ?? require.resolve('vscode-oniguruma/release/onig.wasm');
+		let wasm: ArrayBuffer;
+		if (typeof source === 'string') {
+			// vscode-oniguruma only accepts an ArrayBuffer, not a Buffer
+			const buffer = await fs.readFile(source);
+			wasm = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+		} else {
+			wasm = source;
+		}
+		await vscodeOniguruma.loadWASM({
+			data: wasm,
+			print: (str: string) => {
+				this._logger.info(str);
+			}
+		});
+		return vscodeOniguruma;
+	}
+}
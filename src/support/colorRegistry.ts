@@ -16,3 +16,340 @@ export const editorBackground = 'editor.background';
  * Editor foreground color.
  */
 export const editorForeground = 'editor.foreground';
+
+/**
+ * The ids of the colors Monaco registers. Themes may define other colors, but Monaco ignores them.
+ *
+ * Copied from monaco-editor 0.33.0, the version pinned in package.json. Update the list when
+ * upgrading Monaco, otherwise `validateTheme` reports new colors as unknown.
+ */
+export const knownColorIds: ReadonlySet<ColorIdentifier> = new Set([
+	'badge.background',
+	'badge.foreground',
+	'breadcrumb.activeSelectionForeground',
+	'breadcrumb.background',
+	'breadcrumb.focusForeground',
+	'breadcrumb.foreground',
+	'breadcrumbPicker.background',
+	'button.background',
+	'button.border',
+	'button.foreground',
+	'button.hoverBackground',
+	'button.secondaryBackground',
+	'button.secondaryForeground',
+	'button.secondaryHoverBackground',
+	'charts.blue',
+	'charts.foreground',
+	'charts.green',
+	'charts.lines',
+	'charts.orange',
+	'charts.purple',
+	'charts.red',
+	'charts.yellow',
+	'checkbox.background',
+	'checkbox.border',
+	'checkbox.foreground',
+	'contrastActiveBorder',
+	'contrastBorder',
+	'descriptionForeground',
+	'diffEditor.border',
+	'diffEditor.diagonalFill',
+	'diffEditor.insertedLineBackground',
+	'diffEditor.insertedTextBackground',
+	'diffEditor.insertedTextBorder',
+	'diffEditor.removedLineBackground',
+	'diffEditor.removedTextBackground',
+	'diffEditor.removedTextBorder',
+	'diffEditorGutter.insertedLineBackground',
+	'diffEditorGutter.removedLineBackground',
+	'diffEditorOverview.insertedForeground',
+	'diffEditorOverview.removedForeground',
+	'dropdown.background',
+	'dropdown.border',
+	'dropdown.foreground',
+	'dropdown.listBackground',
+	'editor.background',
+	'editor.findMatchBackground',
+	'editor.findMatchBorder',
+	'editor.findMatchHighlightBackground',
+	'editor.findMatchHighlightBorder',
+	'editor.findRangeHighlightBackground',
+	'editor.findRangeHighlightBorder',
+	'editor.foldBackground',
+	'editor.foreground',
+	'editor.hoverHighlightBackground',
+	'editor.inactiveSelectionBackground',
+	'editor.lineHighlightBackground',
+	'editor.lineHighlightBorder',
+	'editor.linkedEditingBackground',
+	'editor.rangeHighlightBackground',
+	'editor.rangeHighlightBorder',
+	'editor.selectionBackground',
+	'editor.selectionForeground',
+	'editor.selectionHighlightBackground',
+	'editor.selectionHighlightBorder',
+	'editor.snippetFinalTabstopHighlightBackground',
+	'editor.snippetFinalTabstopHighlightBorder',
+	'editor.snippetTabstopHighlightBackground',
+	'editor.snippetTabstopHighlightBorder',
+	'editor.symbolHighlightBackground',
+	'editor.symbolHighlightBorder',
+	'editor.wordHighlightBackground',
+	'editor.wordHighlightBorder',
+	'editor.wordHighlightStrongBackground',
+	'editor.wordHighlightStrongBorder',
+	'editorActiveLineNumber.foreground',
+	'editorBracketHighlight.foreground1',
+	'editorBracketHighlight.foreground2',
+	'editorBracketHighlight.foreground3',
+	'editorBracketHighlight.foreground4',
+	'editorBracketHighlight.foreground5',
+	'editorBracketHighlight.foreground6',
+	'editorBracketHighlight.unexpectedBracket.foreground',
+	'editorBracketMatch.background',
+	'editorBracketMatch.border',
+	'editorBracketPairGuide.activeBackground1',
+	'editorBracketPairGuide.activeBackground2',
+	'editorBracketPairGuide.activeBackground3',
+	'editorBracketPairGuide.activeBackground4',
+	'editorBracketPairGuide.activeBackground5',
+	'editorBracketPairGuide.activeBackground6',
+	'editorBracketPairGuide.background1',
+	'editorBracketPairGuide.background2',
+	'editorBracketPairGuide.background3',
+	'editorBracketPairGuide.background4',
+	'editorBracketPairGuide.background5',
+	'editorBracketPairGuide.background6',
+	'editorCodeLens.foreground',
+	'editorCursor.background',
+	'editorCursor.foreground',
+	'editorError.background',
+	'editorError.border',
+	'editorError.foreground',
+	'editorGhostText.background',
+	'editorGhostText.border',
+	'editorGhostText.foreground',
+	'editorGutter.background',
+	'editorGutter.foldingControlForeground',
+	'editorHint.border',
+	'editorHint.foreground',
+	'editorHoverWidget.background',
+	'editorHoverWidget.border',
+	'editorHoverWidget.foreground',
+	'editorHoverWidget.highlightForeground',
+	'editorHoverWidget.statusBarBackground',
+	'editorIndentGuide.activeBackground',
+	'editorIndentGuide.background',
+	'editorInfo.background',
+	'editorInfo.border',
+	'editorInfo.foreground',
+	'editorInlayHint.background',
+	'editorInlayHint.foreground',
+	'editorInlayHint.parameterBackground',
+	'editorInlayHint.parameterForeground',
+	'editorInlayHint.typeBackground',
+	'editorInlayHint.typeForeground',
+	'editorLightBulb.foreground',
+	'editorLightBulbAutoFix.foreground',
+	'editorLineNumber.activeForeground',
+	'editorLineNumber.foreground',
+	'editorLink.activeForeground',
+	'editorMarkerNavigation.background',
+	'editorMarkerNavigationError.background',
+	'editorMarkerNavigationError.headerBackground',
+	'editorMarkerNavigationInfo.background',
+	'editorMarkerNavigationInfo.headerBackground',
+	'editorMarkerNavigationWarning.background',
+	'editorMarkerNavigationWarning.headerBackground',
+	'editorOverviewRuler.background',
+	'editorOverviewRuler.border',
+	'editorOverviewRuler.bracketMatchForeground',
+	'editorOverviewRuler.commonContentForeground',
+	'editorOverviewRuler.currentContentForeground',
+	'editorOverviewRuler.errorForeground',
+	'editorOverviewRuler.findMatchForeground',
+	'editorOverviewRuler.incomingContentForeground',
+	'editorOverviewRuler.infoForeground',
+	'editorOverviewRuler.rangeHighlightForeground',
+	'editorOverviewRuler.selectionHighlightForeground',
+	'editorOverviewRuler.warningForeground',
+	'editorOverviewRuler.wordHighlightForeground',
+	'editorOverviewRuler.wordHighlightStrongForeground',
+	'editorRuler.foreground',
+	'editorSuggestWidget.background',
+	'editorSuggestWidget.border',
+	'editorSuggestWidget.focusHighlightForeground',
+	'editorSuggestWidget.foreground',
+	'editorSuggestWidget.highlightForeground',
+	'editorSuggestWidget.selectedBackground',
+	'editorSuggestWidget.selectedForeground',
+	'editorSuggestWidget.selectedIconForeground',
+	'editorSuggestWidgetStatus.foreground',
+	'editorUnicodeHighlight.border',
+	'editorUnnecessaryCode.border',
+	'editorUnnecessaryCode.opacity',
+	'editorWarning.background',
+	'editorWarning.border',
+	'editorWarning.foreground',
+	'editorWhitespace.foreground',
+	'editorWidget.background',
+	'editorWidget.border',
+	'editorWidget.foreground',
+	'editorWidget.resizeBorder',
+	'errorForeground',
+	'focusBorder',
+	'foreground',
+	'icon.foreground',
+	'input.background',
+	'input.border',
+	'input.foreground',
+	'input.placeholderForeground',
+	'inputOption.activeBackground',
+	'inputOption.activeBorder',
+	'inputOption.activeForeground',
+	'inputOption.hoverBackground',
+	'inputValidation.errorBackground',
+	'inputValidation.errorBorder',
+	'inputValidation.errorForeground',
+	'inputValidation.infoBackground',
+	'inputValidation.infoBorder',
+	'inputValidation.infoForeground',
+	'inputValidation.warningBackground',
+	'inputValidation.warningBorder',
+	'inputValidation.warningForeground',
+	'keybindingLabel.background',
+	'keybindingLabel.border',
+	'keybindingLabel.bottomBorder',
+	'keybindingLabel.foreground',
+	'list.activeSelectionBackground',
+	'list.activeSelectionForeground',
+	'list.activeSelectionIconForeground',
+	'list.deemphasizedForeground',
+	'list.dropBackground',
+	'list.errorForeground',
+	'list.filterMatchBackground',
+	'list.filterMatchBorder',
+	'list.focusBackground',
+	'list.focusForeground',
+	'list.focusHighlightForeground',
+	'list.focusOutline',
+	'list.highlightForeground',
+	'list.hoverBackground',
+	'list.hoverForeground',
+	'list.inactiveFocusBackground',
+	'list.inactiveFocusOutline',
+	'list.inactiveSelectionBackground',
+	'list.inactiveSelectionForeground',
+	'list.inactiveSelectionIconForeground',
+	'list.invalidItemForeground',
+	'list.warningForeground',
+	'listFilterWidget.background',
+	'listFilterWidget.noMatchesOutline',
+	'listFilterWidget.outline',
+	'menu.background',
+	'menu.border',
+	'menu.foreground',
+	'menu.selectionBackground',
+	'menu.selectionBorder',
+	'menu.selectionForeground',
+	'menu.separatorBackground',
+	'merge.border',
+	'merge.commonContentBackground',
+	'merge.commonHeaderBackground',
+	'merge.currentContentBackground',
+	'merge.currentHeaderBackground',
+	'merge.incomingContentBackground',
+	'merge.incomingHeaderBackground',
+	'minimap.background',
+	'minimap.errorHighlight',
+	'minimap.findMatchHighlight',
+	'minimap.foregroundOpacity',
+	'minimap.selectionHighlight',
+	'minimap.selectionOccurrenceHighlight',
+	'minimap.warningHighlight',
+	'minimapSlider.activeBackground',
+	'minimapSlider.background',
+	'minimapSlider.hoverBackground',
+	'peekView.border',
+	'peekViewEditor.background',
+	'peekViewEditor.matchHighlightBackground',
+	'peekViewEditor.matchHighlightBorder',
+	'peekViewEditorGutter.background',
+	'peekViewResult.background',
+	'peekViewResult.fileForeground',
+	'peekViewResult.lineForeground',
+	'peekViewResult.matchHighlightBackground',
+	'peekViewResult.selectionBackground',
+	'peekViewResult.selectionForeground',
+	'peekViewTitle.background',
+	'peekViewTitleDescription.foreground',
+	'peekViewTitleLabel.foreground',
+	'pickerGroup.border',
+	'pickerGroup.foreground',
+	'problemsErrorIcon.foreground',
+	'problemsInfoIcon.foreground',
+	'problemsWarningIcon.foreground',
+	'progressBar.background',
+	'quickInput.background',
+	'quickInput.foreground',
+	'quickInput.list.focusBackground',
+	'quickInputList.focusBackground',
+	'quickInputList.focusForeground',
+	'quickInputList.focusIconForeground',
+	'quickInputTitle.background',
+	'sash.hoverBorder',
+	'scrollbar.shadow',
+	'scrollbarSlider.activeBackground',
+	'scrollbarSlider.background',
+	'scrollbarSlider.hoverBackground',
+	'searchEditor.findMatchBackground',
+	'searchEditor.findMatchBorder',
+	'selection.background',
+	'symbolIcon.arrayForeground',
+	'symbolIcon.booleanForeground',
+	'symbolIcon.classForeground',
+	'symbolIcon.colorForeground',
+	'symbolIcon.constantForeground',
+	'symbolIcon.constructorForeground',
+	'symbolIcon.enumeratorForeground',
+	'symbolIcon.enumeratorMemberForeground',
+	'symbolIcon.eventForeground',
+	'symbolIcon.fieldForeground',
+	'symbolIcon.fileForeground',
+	'symbolIcon.folderForeground',
+	'symbolIcon.functionForeground',
+	'symbolIcon.interfaceForeground',
+	'symbolIcon.keyForeground',
+	'symbolIcon.keywordForeground',
+	'symbolIcon.methodForeground',
+	'symbolIcon.moduleForeground',
+	'symbolIcon.namespaceForeground',
+	'symbolIcon.nullForeground',
+	'symbolIcon.numberForeground',
+	'symbolIcon.objectForeground',
+	'symbolIcon.operatorForeground',
+	'symbolIcon.packageForeground',
+	'symbolIcon.propertyForeground',
+	'symbolIcon.referenceForeground',
+	'symbolIcon.snippetForeground',
+	'symbolIcon.stringForeground',
+	'symbolIcon.structForeground',
+	'symbolIcon.textForeground',
+	'symbolIcon.typeParameterForeground',
+	'symbolIcon.unitForeground',
+	'symbolIcon.variableForeground',
+	'textBlockQuote.background',
+	'textBlockQuote.border',
+	'textCodeBlock.background',
+	'textLink.activeForeground',
+	'textLink.foreground',
+	'textPreformat.foreground',
+	'textSeparator.foreground',
+	'toolbar.activeBackground',
+	'toolbar.hoverBackground',
+	'toolbar.hoverOutline',
+	'tree.indentGuidesStroke',
+	'tree.tableColumnsBorder',
+	'tree.tableOddRowsBackground',
+	'widget.shadow'
+]);
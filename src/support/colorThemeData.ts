@@ -2,23 +2,43 @@
  *  Copyright (c) Microsoft Corporation. All rights reserved.
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
 
 import * as Json from './utils/json';
 import { Color } from './utils/color';
-import { ITextMateThemingRule, IWorkbenchColorTheme, IColorMap, VS_LIGHT_THEME, VS_HC_THEME, ISemanticTokenColorizationSetting, VS_HC_LIGHT_THEME } from './workbenchThemeService';
+import { ITextMateThemingRule, IWorkbenchColorTheme, IColorMap, VS_LIGHT_THEME, VS_DARK_THEME, VS_HC_THEME, ISemanticTokenColorizationSetting, VS_HC_LIGHT_THEME, ITokenColorCustomizations, IColorCustomizations, ISemanticTokenColorCustomizationRules, IThemeScopableCustomizations, IThemeScopedCustomizations, THEME_SCOPE_CLOSE_PAREN, THEME_SCOPE_OPEN_PAREN, THEME_SCOPE_WILDCARD, themeScopeRegex } from './workbenchThemeService';
 import * as types from './utils/types';
 import * as resources from './utils/resources';
+import * as paths from './utils/path';
 import { ColorIdentifier, editorBackground, editorForeground } from './colorRegistry';
-import { TokenStyle, SemanticTokenRule, getTokenClassificationRegistry } from './tokenClassificationRegistry';
+import { TokenStyle, SemanticTokenRule, ProbeScope, TokenStyleValue, getTokenClassificationRegistry, isValidTokenSelector, parseClassifierString } from './tokenClassificationRegistry';
+import { ITokenStyle } from './themeService';
+import { createMatchers, Matcher, MatcherWithPriority } from './textMateScopeMatcher';
 import { CharCode } from './utils/charCode';
 import { ColorScheme } from './theme';
+import { IResourceLoader } from './resourceLoader';
+import { IExtensionManifest, ITheme } from './extensions';
+import { ILogger } from './logger';
+import { parse as parsePList } from './utils/plist';
+import { convertSettings } from './themeCompatibility';
+import { ColorThemeLoadError, isValidHexColor, validateTheme } from './colorThemeValidation';
 
 let tokenClassificationRegistry = getTokenClassificationRegistry();
 
+const tokenGroupToScopesMap = {
+	comments: ['comment', 'punctuation.definition.comment'],
+	strings: ['string', 'meta.embedded.assembly'],
+	keywords: ['keyword - keyword.operator', 'keyword.control', 'storage', 'storage.type'],
+	numbers: ['constant.numeric'],
+	types: ['entity.name.type', 'entity.name.class', 'support.type', 'support.class'],
+	functions: ['entity.name.function', 'support.function'],
+	variables: ['variable', 'entity.name.variable']
+};
+
 export class ColorThemeData implements IWorkbenchColorTheme {
 	id: string;
 	label: string;
+	settingsId: string;
 	description?: string;
 	isLoaded: boolean;
 	location: monaco.Uri; // only set for extension from the registry, not for themes restored from the storage
@@ -32,12 +52,16 @@ export class ColorThemeData implements IWorkbenchColorTheme {
 	private semanticTokenRules: SemanticTokenRule[] = [];
 	private customSemanticTokenRules: SemanticTokenRule[] = [];
 
+	private themeTokenScopeMatchers: Matcher<ProbeScope>[] | undefined;
+	private customTokenScopeMatchers: Matcher<ProbeScope>[] | undefined;
+
 	private textMateThemingRules: ITextMateThemingRule[] | undefined = undefined; // created on demand
 	private tokenColorIndex: TokenColorIndex | undefined = undefined; // created on demand
 
-	private constructor(id: string, label: string, location: monaco.Uri) {
+	private constructor(id: string, label: string, settingsId: string, location: monaco.Uri) {
 		this.id = id;
 		this.label = label;
+		this.settingsId = settingsId;
 		this.location = location;
 		this.isLoaded = false;
 	}
@@ -92,6 +116,286 @@ export class ColorThemeData implements IWorkbenchColorTheme {
 		return color;
 	}
 
+	private getTokenStyle(type: string, modifiers: string[], language: string, useDefault = true): TokenStyle | undefined {
+		const result: any = {
+			foreground: undefined,
+			bold: undefined,
+			underline: undefined,
+			strikethrough: undefined,
+			italic: undefined
+		};
+		const score = {
+			foreground: -1,
+			bold: -1,
+			underline: -1,
+			strikethrough: -1,
+			italic: -1
+		};
+
+		function _processStyle(matchScore: number, style: TokenStyle) {
+			if (style.foreground && score.foreground <= matchScore) {
+				score.foreground = matchScore;
+				result.foreground = style.foreground;
+			}
+			for (let p of ['bold', 'underline', 'strikethrough', 'italic']) {
+				const property = p as keyof TokenStyle;
+				const info = style[property];
+				if (info !== undefined) {
+					if (score[property] <= matchScore) {
+						score[property] = matchScore;
+						result[property] = info;
+					}
+				}
+			}
+		}
+		function _processSemanticTokenRule(rule: SemanticTokenRule) {
+			const matchScore = rule.selector.match(type, modifiers, language);
+			if (matchScore >= 0) {
+				_processStyle(matchScore, rule.style);
+			}
+		}
+
+		this.semanticTokenRules.forEach(_processSemanticTokenRule);
+		this.customSemanticTokenRules.forEach(_processSemanticTokenRule);
+
+		let hasUndefinedStyleProperty = false;
+		for (let k in score) {
+			const key = k as keyof TokenStyle;
+			if (score[key] === -1) {
+				hasUndefinedStyleProperty = true;
+			} else {
+				score[key] = Number.MAX_VALUE; // set it to the max, so it won't be replaced by a default
+			}
+		}
+		if (hasUndefinedStyleProperty) {
+			for (const rule of tokenClassificationRegistry.getTokenStylingDefaultRules()) {
+				const matchScore = rule.selector.match(type, modifiers, language);
+				if (matchScore >= 0) {
+					let style: TokenStyle | undefined;
+					if (rule.defaults.scopesToProbe) {
+						style = this.resolveScopes(rule.defaults.scopesToProbe);
+						if (style) {
+							_processStyle(matchScore, style);
+						}
+					}
+					if (!style && useDefault !== false) {
+						const tokenStyleValue = rule.defaults[this.type];
+						style = this.resolveTokenStyleValue(tokenStyleValue);
+						if (style) {
+							_processStyle(matchScore, style);
+						}
+					}
+				}
+			}
+		}
+		return TokenStyle.fromData(result);
+	}
+
+	/**
+	 * @param tokenStyleValue Resolve a tokenStyleValue in the context of a theme
+	 */
+	public resolveTokenStyleValue(tokenStyleValue: TokenStyleValue | undefined): TokenStyle | undefined {
+		if (tokenStyleValue === undefined) {
+			return undefined;
+		} else if (typeof tokenStyleValue === 'string') {
+			const { type, modifiers, language } = parseClassifierString(tokenStyleValue, '');
+			return this.getTokenStyle(type, modifiers, language);
+		} else if (typeof tokenStyleValue === 'object') {
+			return tokenStyleValue;
+		}
+		return undefined;
+	}
+
+	public getTokenStyleMetadata(typeWithLanguage: string, modifiers: string[], defaultLanguage: string, useDefault = true): ITokenStyle | undefined {
+		const { type, language } = parseClassifierString(typeWithLanguage, defaultLanguage);
+		const style = this.getTokenStyle(type, modifiers, language, useDefault);
+		if (!style) {
+			return undefined;
+		}
+
+		return {
+			foreground: this.getTokenColorIndex().get(style.foreground),
+			bold: style.bold,
+			underline: style.underline,
+			strikethrough: style.strikethrough,
+			italic: style.italic,
+		};
+	}
+
+	/**
+	 * Resolves the style of the first of the given scope paths that is matched by the theme's TextMate rules.
+	 */
+	public resolveScopes(scopes: ProbeScope[]): TokenStyle | undefined {
+
+		if (!this.themeTokenScopeMatchers) {
+			this.themeTokenScopeMatchers = this.themeTokenColors.map(getScopeMatcher);
+		}
+		if (!this.customTokenScopeMatchers) {
+			this.customTokenScopeMatchers = this.customTokenColors.map(getScopeMatcher);
+		}
+
+		for (let scope of scopes) {
+			let foreground: string | undefined = undefined;
+			let fontStyle: string | undefined = undefined;
+			let foregroundScore = -1;
+			let fontStyleScore = -1;
+
+			function findTokenStyleForScopeInScopes(scopeMatchers: Matcher<ProbeScope>[], themingRules: ITextMateThemingRule[]) {
+				for (let i = 0; i < scopeMatchers.length; i++) {
+					const score = scopeMatchers[i](scope);
+					if (score >= 0) {
+						const settings = themingRules[i].settings;
+						if (score >= foregroundScore && settings.foreground) {
+							foreground = settings.foreground;
+							foregroundScore = score;
+						}
+						if (score >= fontStyleScore && types.isString(settings.fontStyle)) {
+							fontStyle = settings.fontStyle;
+							fontStyleScore = score;
+						}
+					}
+				}
+			}
+			findTokenStyleForScopeInScopes(this.themeTokenScopeMatchers, this.themeTokenColors);
+			findTokenStyleForScopeInScopes(this.customTokenScopeMatchers, this.customTokenColors);
+			if (foreground !== undefined || fontStyle !== undefined) {
+				return TokenStyle.fromSettings(foreground, fontStyle);
+			}
+		}
+		return undefined;
+	}
+
+	public setCustomColors(colors: IColorCustomizations) {
+		this.customColorMap = {};
+		this.overwriteCustomColors(colors);
+
+		const themeSpecificColors = this.getThemeSpecificColors(colors) as IColorCustomizations;
+		if (types.isObject(themeSpecificColors)) {
+			this.overwriteCustomColors(themeSpecificColors);
+		}
+
+		this.tokenColorIndex = undefined;
+		this.textMateThemingRules = undefined;
+		this.customTokenScopeMatchers = undefined;
+	}
+
+	private overwriteCustomColors(colors: IColorCustomizations) {
+		for (let id in colors) {
+			let colorVal = colors[id];
+			if (typeof colorVal === 'string') {
+				this.customColorMap[id] = Color.fromHex(colorVal);
+			}
+		}
+	}
+
+	public setCustomTokenColors(customTokenColors: ITokenColorCustomizations) {
+		this.customTokenColors = [];
+		this.customSemanticTokenRules = [];
+
+		// first add the non-theme specific settings
+		this.addCustomTokenColors(customTokenColors);
+
+		// append theme specific settings. Last rules will win.
+		const themeSpecificColors = this.getThemeSpecificColors(customTokenColors) as ITokenColorCustomizations;
+		if (types.isObject(themeSpecificColors)) {
+			this.addCustomTokenColors(themeSpecificColors);
+		}
+
+		this.tokenColorIndex = undefined;
+		this.textMateThemingRules = undefined;
+		this.customTokenScopeMatchers = undefined;
+	}
+
+	public isThemeScope(key: string): boolean {
+		return key.charAt(0) === THEME_SCOPE_OPEN_PAREN && key.charAt(key.length - 1) === THEME_SCOPE_CLOSE_PAREN;
+	}
+
+	public isThemeScopeMatch(themeId: string): boolean {
+		const themeIdFirstChar = themeId.charAt(0);
+		const themeIdLastChar = themeId.charAt(themeId.length - 1);
+		const themeIdPrefix = themeId.slice(0, -1);
+		const themeIdInfix = themeId.slice(1, -1);
+		const themeIdSuffix = themeId.slice(1);
+		return themeId === this.settingsId
+			|| (this.settingsId.includes(themeIdInfix) && themeIdFirstChar === THEME_SCOPE_WILDCARD && themeIdLastChar === THEME_SCOPE_WILDCARD)
+			|| (this.settingsId.startsWith(themeIdPrefix) && themeIdLastChar === THEME_SCOPE_WILDCARD)
+			|| (this.settingsId.endsWith(themeIdSuffix) && themeIdFirstChar === THEME_SCOPE_WILDCARD);
+	}
+
+	public getThemeSpecificColors(colors: IThemeScopableCustomizations): IThemeScopedCustomizations | undefined {
+		let themeSpecificColors;
+		for (let key in colors) {
+			const scopedColors = colors[key];
+			if (this.isThemeScope(key) && scopedColors instanceof Object && !Array.isArray(scopedColors)) {
+				const themeScopeList = key.match(themeScopeRegex) || [];
+				for (let themeScope of themeScopeList) {
+					const themeId = themeScope.substring(1, themeScope.length - 1);
+					if (this.isThemeScopeMatch(themeId)) {
+						if (!themeSpecificColors) {
+							themeSpecificColors = {} as IThemeScopedCustomizations;
+						}
+						const scopedThemeSpecificColors = scopedColors as IThemeScopedCustomizations;
+						for (let subkey in scopedThemeSpecificColors) {
+							const originalColors = themeSpecificColors[subkey];
+							const overrideColors = scopedThemeSpecificColors[subkey];
+							if (Array.isArray(originalColors) && Array.isArray(overrideColors)) {
+								themeSpecificColors[subkey] = originalColors.concat(overrideColors);
+							} else if (overrideColors) {
+								themeSpecificColors[subkey] = overrideColors;
+							}
+						}
+					}
+				}
+			}
+		}
+		return themeSpecificColors;
+	}
+
+	private readSemanticTokenRules(tokenStylingRuleSection: ISemanticTokenColorCustomizationRules) {
+		for (let key in tokenStylingRuleSection) {
+			try {
+				const rule = readSemanticTokenRule(key, tokenStylingRuleSection[key]);
+				if (rule) {
+					this.customSemanticTokenRules.push(rule);
+				}
+			} catch (e) {
+				// invalid selector, ignore
+			}
+		}
+	}
+
+	private addCustomTokenColors(customTokenColors: ITokenColorCustomizations) {
+		// Put the general customizations such as comments, strings, etc. first so that
+		// they can be overridden by specific customizations like "string.interpolated"
+		for (let tokenGroup in tokenGroupToScopesMap) {
+			const group = <keyof typeof tokenGroupToScopesMap>tokenGroup; // TS doesn't type 'tokenGroup' properly
+			let value = customTokenColors[group];
+			if (value) {
+				let settings = typeof value === 'string' ? { foreground: value } : value;
+				let scopes = tokenGroupToScopesMap[group];
+				for (let scope of scopes) {
+					this.customTokenColors.push({ scope, settings });
+				}
+			}
+		}
+
+		// specific customizations
+		if (Array.isArray(customTokenColors.textMateRules)) {
+			for (let rule of customTokenColors.textMateRules) {
+				if (rule.scope && rule.settings) {
+					this.customTokenColors.push(rule);
+				}
+			}
+		}
+		if (types.isObject(customTokenColors.semanticTokenColors)) {
+			this.readSemanticTokenRules(customTokenColors.semanticTokenColors);
+		}
+	}
+
+	public getColors(): IColorMap {
+		return { ...this.colorMap, ...this.customColorMap };
+	}
+
 	private getTokenColorIndex(): TokenColorIndex {
 		// collect all colors that tokens can have
 		if (!this.tokenColorIndex) {
@@ -119,25 +423,71 @@ export class ColorThemeData implements IWorkbenchColorTheme {
 		return this.getTokenColorIndex().asArray();
 	}
 
-	public ensureLoaded(): Promise<void> {
-		return !this.isLoaded ? this.load() : Promise.resolve(undefined);
+	/**
+	 * The theme as serializable data for `monaco.editor.defineTheme`, for editors tokenized without
+	 * TextMate, e.g. by Monarch.
+	 */
+	public toStandaloneThemeData(): monaco.editor.IStandaloneThemeData {
+		const rules: monaco.editor.ITokenThemeRule[] = [];
+		for (const rule of this.tokenColors) {
+			const { foreground, background, fontStyle } = rule.settings;
+			for (const token of toStandaloneTokens(rule.scope)) {
+				const themeRule: monaco.editor.ITokenThemeRule = { token };
+				if (foreground) {
+					themeRule.foreground = foreground;
+				}
+				// Monaco only uses the background of the default rule
+				if (background && token === '') {
+					themeRule.background = background;
+				}
+				if (typeof fontStyle === 'string') {
+					themeRule.fontStyle = fontStyle;
+				}
+				rules.push(themeRule);
+			}
+		}
+		const colors: monaco.editor.IColors = {};
+		const themeColors = this.getColors();
+		for (const colorId in themeColors) {
+			const color = themeColors[colorId];
+			if (color) {
+				colors[colorId] = Color.Format.CSS.formatHexA(color, true);
+			}
+		}
+		return {
+			base: toBuiltinTheme(this.baseTheme),
+			inherit: true,
+			rules,
+			colors
+		};
+	}
+
+	/**
+	 * Loads the theme file. Problems that do not prevent loading it are reported to the logger as warnings.
+	 */
+	public ensureLoaded(resourceLoader: IResourceLoader, logger: ILogger): Promise<void> {
+		return !this.isLoaded ? this.load(resourceLoader, logger) : Promise.resolve(undefined);
 	}
 
-	private load(): Promise<void> {
+	private load(resourceLoader: IResourceLoader, logger: ILogger): Promise<void> {
 		if (!this.location) {
 			return Promise.resolve(undefined);
 		}
 		this.themeTokenColors = [];
 		this.clearCaches();
 
-		const result = {
+		const result: IThemeLoadResult = {
 			colors: {},
 			textMateRules: [],
 			semanticTokenRules: [],
 			semanticHighlighting: false
 		};
-		return _loadColorTheme(this.location, result).then(_ => {
+		return _loadColorTheme(resourceLoader, this.location, result, logger).then(_ => {
 			this.isLoaded = true;
+			if (!this.label && result.name) {
+				// themes set by location are named by their file, so that `[Theme Name]` customizations apply
+				this.label = this.settingsId = result.name;
+			}
 			this.semanticTokenRules = result.semanticTokenRules;
 			this.colorMap = result.colors;
 			this.themeTokenColors = result.textMateRules;
@@ -147,6 +497,8 @@ export class ColorThemeData implements IWorkbenchColorTheme {
 	public clearCaches() {
 		this.tokenColorIndex = undefined;
 		this.textMateThemingRules = undefined;
+		this.themeTokenScopeMatchers = undefined;
+		this.customTokenScopeMatchers = undefined;
 	}
 
 	get baseTheme(): string {
@@ -168,8 +520,20 @@ export class ColorThemeData implements IWorkbenchColorTheme {
 
 	// constructors
 
+	static fromExtensionTheme(theme: ITheme, colorThemeLocation: monaco.Uri, extensionId: string): ColorThemeData {
+		const baseTheme: string = theme.uiTheme || VS_DARK_THEME;
+		const themeSelector = toCSSSelector(extensionId, theme.path);
+		const id = `${baseTheme} ${themeSelector}`;
+		const label = theme.label || paths.posix.basename(theme.path);
+		const settingsId = theme.id || label;
+		const themeData = new ColorThemeData(id, label, settingsId, colorThemeLocation);
+		themeData.description = theme.description;
+		themeData.isLoaded = false;
+		return themeData;
+	}
+
 	static createUnloadedTheme(id: string, location: monaco.Uri): ColorThemeData {
-		let themeData = new ColorThemeData(id, '', location);
+		let themeData = new ColorThemeData(id, '', '__' + id, location);
 		themeData.isLoaded = false;
 		themeData.themeTokenColors = [];
 		themeData.watch = false;
@@ -177,52 +541,159 @@ export class ColorThemeData implements IWorkbenchColorTheme {
 	}
 }
 
-async function _loadColorTheme(themeLocation: monaco.Uri, result: { textMateRules: ITextMateThemingRule[]; colors: IColorMap; semanticTokenRules: SemanticTokenRule[]; semanticHighlighting: boolean }): Promise<any> {
-	const content = await (await fetch(themeLocation.path)).text();
-	let errors: Json.ParseError[] = [];
-	let contentValue = Json.parse(content, errors);
-	if (errors.length > 0) {
-		return Promise.reject(new Error("Problems parsing JSON theme file: {0}"));
-	} else if (Json.getNodeType(contentValue) !== 'object') {
-		return Promise.reject(new Error("Invalid format for JSON theme file: Object expected."));
+function toCSSSelector(extensionId: string, path: string) {
+	if (path.startsWith('./')) {
+		path = path.substr(2);
+	}
+	let str = `${extensionId}-${path}`;
+
+	//remove all characters that are not allowed in css
+	str = str.replace(/[^_a-zA-Z0-9-]/g, '-');
+	if (str.charAt(0).match(/[0-9-]/)) {
+		str = '_' + str;
+	}
+	return str;
+}
+
+export function toBuiltinTheme(baseTheme: string): monaco.editor.BuiltinTheme {
+	switch (baseTheme) {
+		case VS_LIGHT_THEME: return 'vs';
+		case VS_HC_THEME: return 'hc-black';
+		case VS_HC_LIGHT_THEME: return 'vs';
+		default: return 'vs-dark';
+	}
+}
+
+/**
+ * The Monaco tokens for the scope selectors of a rule, the empty token for the default rule. Monaco
+ * matches a token by prefix only, so selectors with parent scopes or exclusions are dropped.
+ */
+function toStandaloneTokens(scope: string | string[] | undefined): string[] {
+	if (!scope) {
+		return [''];
+	}
+	const selectors = Array.isArray(scope) ? scope : scope.split(',');
+	const tokens: string[] = [];
+	for (let selector of selectors) {
+		selector = selector.trim();
+		if (selector && !/[\s()|&:]/.test(selector) && selector.charCodeAt(0) !== CharCode.Dash) {
+			tokens.push(selector);
+		}
+	}
+	return tokens;
+}
+
+/**
+ * Creates the unloaded color themes contributed by an extension.
+ */
+export function readExtensionColorThemes(extensionLocation: monaco.Uri, manifest: IExtensionManifest, logger: ILogger): ColorThemeData[] {
+	const result: ColorThemeData[] = [];
+	const themes = manifest.contributes?.themes;
+	if (!themes) {
+		return result;
+	}
+	if (!Array.isArray(themes)) {
+		logger.error(`[${manifest.name}]: Expected 'contributes.themes' to be an array.`);
+		return result;
+	}
+	const extensionId = `${manifest.publisher}.${manifest.name}`;
+	for (const theme of themes) {
+		if (!theme || typeof theme.path !== 'string') {
+			logger.error(`[${manifest.name}]: Expected 'contributes.themes.path' to be a string.`);
+			continue;
+		}
+		if (theme.uiTheme !== undefined && ![VS_LIGHT_THEME, VS_DARK_THEME, VS_HC_THEME, VS_HC_LIGHT_THEME].includes(theme.uiTheme)) {
+			logger.error(`[${manifest.name}]: Expected 'contributes.themes.uiTheme' to be one of '${VS_LIGHT_THEME}', '${VS_DARK_THEME}', '${VS_HC_THEME}' or '${VS_HC_LIGHT_THEME}'.`);
+			continue;
+		}
+		result.push(ColorThemeData.fromExtensionTheme(theme, resources.joinPath(extensionLocation, theme.path), extensionId));
+	}
+	return result;
+}
+
+interface IThemeLoadResult {
+	name?: string;
+	textMateRules: ITextMateThemingRule[];
+	colors: IColorMap;
+	semanticTokenRules: SemanticTokenRule[];
+	semanticHighlighting: boolean;
+}
+
+async function _loadColorTheme(resourceLoader: IResourceLoader, themeLocation: monaco.Uri, result: IThemeLoadResult, logger: ILogger): Promise<any> {
+	if (paths.posix.extname(themeLocation.path).toLowerCase() !== '.json') {
+		return _loadSyntaxTokens(resourceLoader, themeLocation, result);
+	}
+	const content = await resourceLoader.readFile(themeLocation);
+	const diagnostics = validateTheme(content);
+	if (diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+		return Promise.reject(new ColorThemeLoadError(themeLocation, diagnostics));
 	}
+	// Infos are left to validateTheme callers: most themes define many colors Monaco does not use
+	for (const diagnostic of diagnostics) {
+		if (diagnostic.severity === 'warning') {
+			logger.warn(`${themeLocation.toString(true)} (${diagnostic.line}:${diagnostic.column}): ${diagnostic.message}`);
+		}
+	}
+	let contentValue = Json.parse(content);
 	if (contentValue.include) {
-		await _loadColorTheme(resources.joinPath(resources.dirname(themeLocation), contentValue.include), result);
+		await _loadColorTheme(resourceLoader, resources.joinPath(resources.dirname(themeLocation), contentValue.include), result, logger);
+	}
+	if (typeof contentValue.name === 'string') {
+		result.name = contentValue.name;
 	}
 	result.semanticHighlighting = result.semanticHighlighting || contentValue.semanticHighlighting;
+	// invalid colors, token color rules and semantic token selectors are skipped, see validateTheme
 	let colors = contentValue.colors;
 	if (colors) {
-		if (typeof colors !== 'object') {
-			return Promise.reject(new Error("Problem parsing color theme file: {0}. Property 'colors' is not of type 'object'."));
-		}
 		// new JSON color themes format
 		for (let colorId in colors) {
 			let colorHex = colors[colorId];
-			if (typeof colorHex === 'string') { // ignore colors tht are null
-				result.colors[colorId] = Color.fromHex(colors[colorId]);
+			if (typeof colorHex === 'string' && isValidHexColor(colorHex)) { // ignore colors that are null
+				result.colors[colorId] = Color.fromHex(colorHex);
 			}
 		}
 	}
 	let tokenColors = contentValue.tokenColors;
 	if (tokenColors) {
 		if (Array.isArray(tokenColors)) {
-			result.textMateRules.push(...tokenColors);
-		} else {
-			return Promise.reject(new Error("Problem parsing color theme file: {0}. Property 'tokenColors' should be either an array specifying colors or a path to a TextMate theme file"));
+			result.textMateRules.push(...tokenColors.filter(rule => rule && typeof rule === 'object'));
+		} else if (typeof tokenColors === 'string') {
+			await _loadSyntaxTokens(resourceLoader, resources.joinPath(resources.dirname(themeLocation), tokenColors), result);
 		}
 	}
 	let semanticTokenColors = contentValue.semanticTokenColors;
 	if (semanticTokenColors && typeof semanticTokenColors === 'object') {
 		for (let key in semanticTokenColors) {
-			try {
-				const rule = readSemanticTokenRule(key, semanticTokenColors[key]);
-				if (rule) {
-					result.semanticTokenRules.push(rule);
-				}
-			} catch (e) {
-				return Promise.reject(new Error("Problem parsing color theme file: {0}. Property 'semanticTokenColors' contains a invalid selector"));
+			if (!isValidTokenSelector(key)) {
+				continue;
 			}
+			const rule = readSemanticTokenRule(key, semanticTokenColors[key]);
+			if (rule) {
+				result.semanticTokenRules.push(rule);
+			}
+		}
+	}
+}
+
+async function _loadSyntaxTokens(resourceLoader: IResourceLoader, themeLocation: monaco.Uri, result: Pick<IThemeLoadResult, 'name' | 'textMateRules' | 'colors'>): Promise<any> {
+	let content: string;
+	try {
+		content = await resourceLoader.readFile(themeLocation);
+	} catch (error: any) {
+		return Promise.reject(new Error(`Problems loading tmTheme file ${themeLocation.toString(true)}: ${error.message}`));
+	}
+	try {
+		let contentValue = parsePList(content);
+		let settings: ITextMateThemingRule[] = contentValue && contentValue.settings;
+		if (!Array.isArray(settings)) {
+			return Promise.reject(new Error(`Problem parsing tmTheme file: ${themeLocation.toString(true)}. 'settings' is not array.`));
+		}
+		convertSettings(settings, result);
+		if (!result.name && typeof contentValue.name === 'string') {
+			result.name = contentValue.name;
 		}
+	} catch (e: any) {
+		return Promise.reject(new Error(`Problems parsing tmTheme file: ${e.message}`));
 	}
 }
 
@@ -273,6 +744,63 @@ function isSemanticTokenColorizationSetting(style: any): style is ISemanticToken
 }
 
 
+const noMatch = (_scope: ProbeScope) => -1;
+
+function nameMatcher(identifers: string[], scope: ProbeScope): number {
+	if (scope.length < identifers.length) {
+		return -1;
+	}
+
+	let score: number | undefined = undefined;
+	const every = identifers.every(identifier => {
+		for (let i = scope.length - 1; i >= 0; i--) {
+			if (scopesAreMatching(scope[i], identifier)) {
+				score = (i + 1) * 0x10000 + identifier.length;
+				return true;
+			}
+		}
+		return false;
+	});
+	return every && score !== undefined ? score : -1;
+}
+
+function scopesAreMatching(thisScopeName: string, scopeName: string): boolean {
+	if (!thisScopeName) {
+		return false;
+	}
+	if (thisScopeName === scopeName) {
+		return true;
+	}
+	const len = scopeName.length;
+	return thisScopeName.length > len && thisScopeName.substr(0, len) === scopeName && thisScopeName[len] === '.';
+}
+
+function getScopeMatcher(rule: ITextMateThemingRule): Matcher<ProbeScope> {
+	const ruleScope = rule.scope;
+	if (!ruleScope || !rule.settings) {
+		return noMatch;
+	}
+	const matchers: MatcherWithPriority<ProbeScope>[] = [];
+	if (Array.isArray(ruleScope)) {
+		for (let rs of ruleScope) {
+			createMatchers(rs, nameMatcher, matchers);
+		}
+	} else {
+		createMatchers(ruleScope, nameMatcher, matchers);
+	}
+
+	if (matchers.length === 0) {
+		return noMatch;
+	}
+	return (scope: ProbeScope) => {
+		let max = matchers[0].matcher(scope);
+		for (let i = 1; i < matchers.length; i++) {
+			max = Math.max(max, matchers[i].matcher(scope));
+		}
+		return max;
+	};
+}
+
 class TokenColorIndex {
 
 	private _lastColorId: number;
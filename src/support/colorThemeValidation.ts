@@ -0,0 +1,251 @@
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+import * as Json from './utils/json';
+import { knownColorIds } from './colorRegistry';
+import { isValidTokenSelector } from './tokenClassificationRegistry';
+
+/**
+ * Errors keep a theme from loading. Warnings point out parts of a theme that are ignored or do not
+ * work as intended, infos parts that have no effect in Monaco.
+ */
+export type ThemeDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface IThemeDiagnostic {
+	readonly severity: ThemeDiagnosticSeverity;
+	readonly message: string;
+	/**
+	 * The offset of the problem in the theme file.
+	 */
+	readonly offset: number;
+	readonly length: number;
+	/**
+	 * The line of the offset, starting with 1.
+	 */
+	readonly line: number;
+	/**
+	 * The column of the offset, starting with 1.
+	 */
+	readonly column: number;
+}
+
+/**
+ * The error a JSON color theme fails to load with if its file has errors.
+ */
+export class ColorThemeLoadError extends Error {
+
+	constructor(public readonly location: monaco.Uri, public readonly diagnostics: IThemeDiagnostic[]) {
+		const error = diagnostics.find(diagnostic => diagnostic.severity === 'error') ?? diagnostics[0];
+		super(`Problems parsing JSON theme file ${location.toString(true)}: ${error.message} (${error.line}:${error.column})`);
+		this.name = 'ColorThemeLoadError';
+	}
+}
+
+/**
+ * Checks the content of a JSON color theme file: its syntax, colors, `tokenColors` rules and
+ * `semanticTokenColors` selectors. Included theme files are not checked.
+ */
+export function validateTheme(content: string): IThemeDiagnostic[] {
+	const validator = new ThemeValidator(content);
+	validator.validate();
+	return validator.diagnostics;
+}
+
+/**
+ * Whether the color is in one of the formats #RGB, #RGBA, #RRGGBB or #RRGGBBAA.
+ */
+export function isValidHexColor(color: string): boolean {
+	return /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(color);
+}
+
+const fontStyles = ['italic', 'bold', 'underline', 'strikethrough'];
+
+class ThemeValidator {
+
+	public readonly diagnostics: IThemeDiagnostic[] = [];
+	private _lineStarts: number[] | undefined;
+
+	constructor(private readonly _content: string) { }
+
+	public validate(): void {
+		const errors: Json.ParseError[] = [];
+		const root = Json.parseTree(this._content, errors);
+		for (const error of errors) {
+			this._report('error', Json.getParseErrorMessage(error.error), error.offset, error.length);
+		}
+		if (!root) {
+			return;
+		}
+		if (root.type !== 'object') {
+			this._reportNode('error', 'Invalid format for JSON theme file: Object expected.', root);
+			return;
+		}
+		for (const [key, value] of getProperties(root)) {
+			switch (key.value) {
+				case 'include':
+					if (value.type !== 'string') {
+						this._reportNode('error', `Property 'include' should be the path to a JSON theme file.`, value);
+					}
+					break;
+				case 'colors':
+					this._validateColors(value);
+					break;
+				case 'tokenColors':
+					this._validateTokenColors(value);
+					break;
+				case 'semanticTokenColors':
+					this._validateSemanticTokenColors(value);
+					break;
+			}
+		}
+	}
+
+	private _validateColors(node: Json.Node): void {
+		if (node.type !== 'object') {
+			this._reportNode('error', `Property 'colors' is not of type 'object'.`, node);
+			return;
+		}
+		for (const [key, value] of getProperties(node)) {
+			if (!knownColorIds.has(key.value)) {
+				this._reportNode('info', `Unknown color id '${key.value}'. Monaco does not use this color.`, key);
+			}
+			// colors that are null are ignored
+			if (value.type !== 'null') {
+				this._validateColor(value);
+			}
+		}
+	}
+
+	private _validateTokenColors(node: Json.Node): void {
+		// a path to a TextMate theme file is checked when it is loaded
+		if (node.type === 'string') {
+			return;
+		}
+		if (node.type !== 'array') {
+			this._reportNode('error', `Property 'tokenColors' should be either an array specifying colors or a path to a TextMate theme file.`, node);
+			return;
+		}
+		for (const rule of node.children!) {
+			if (rule.type !== 'object') {
+				this._reportNode('warning', `Expected a token color rule with the properties 'scope' and 'settings'.`, rule);
+				continue;
+			}
+			let hasSettings = false;
+			for (const [key, value] of getProperties(rule)) {
+				if (key.value === 'scope') {
+					if (value.type !== 'string' && (value.type !== 'array' || value.children!.some(scope => scope.type !== 'string'))) {
+						this._reportNode('warning', `Property 'scope' should be a string or an array of strings.`, value);
+					}
+				} else if (key.value === 'settings') {
+					hasSettings = true;
+					this._validateTokenSettings(value);
+				}
+			}
+			if (!hasSettings) {
+				this._reportNode('warning', `Missing property 'settings' of the token color rule.`, rule);
+			}
+		}
+	}
+
+	private _validateTokenSettings(node: Json.Node): void {
+		if (node.type !== 'object') {
+			this._reportNode('warning', `Property 'settings' is not of type 'object'.`, node);
+			return;
+		}
+		for (const [key, value] of getProperties(node)) {
+			if ((key.value === 'foreground' || key.value === 'background') && value.type !== 'null') {
+				this._validateColor(value);
+			} else if (key.value === 'fontStyle') {
+				this._validateFontStyle(value);
+			}
+		}
+	}
+
+	private _validateSemanticTokenColors(node: Json.Node): void {
+		if (node.type !== 'object') {
+			this._reportNode('warning', `Property 'semanticTokenColors' is not of type 'object'.`, node);
+			return;
+		}
+		for (const [key, value] of getProperties(node)) {
+			if (!isValidTokenSelector(key.value)) {
+				this._reportNode('warning', `Invalid semantic token selector '${key.value}'. Expected 'type(.modifier)*(:language)?', where the type can be '*'.`, key);
+			}
+			if (value.type === 'string') {
+				this._validateColor(value);
+			} else if (value.type === 'object') {
+				for (const [styleKey, styleValue] of getProperties(value)) {
+					if (styleKey.value === 'foreground') {
+						this._validateColor(styleValue);
+					} else if (styleKey.value === 'fontStyle') {
+						this._validateFontStyle(styleValue);
+					} else if (fontStyles.includes(styleKey.value) && styleValue.type !== 'boolean') {
+						this._reportNode('warning', `Property '${styleKey.value}' should be a boolean.`, styleValue);
+					}
+				}
+			} else if (value.type !== 'boolean') {
+				this._reportNode('warning', `Expected a color or an object with the properties 'foreground', 'fontStyle', 'bold', 'italic', 'underline' or 'strikethrough'.`, value);
+			}
+		}
+	}
+
+	private _validateColor(node: Json.Node): void {
+		if (node.type !== 'string' || !isValidHexColor(node.value)) {
+			this._reportNode('warning', `Invalid color. Expected a string in the format #RGB, #RGBA, #RRGGBB or #RRGGBBAA.`, node);
+		}
+	}
+
+	private _validateFontStyle(node: Json.Node): void {
+		if (node.type !== 'string') {
+			this._reportNode('warning', `Property 'fontStyle' should be a string.`, node);
+			return;
+		}
+		const invalidStyles = node.value.split(/\s+/).filter((style: string) => style && !fontStyles.includes(style));
+		if (invalidStyles.length) {
+			this._reportNode('warning', `Invalid font style '${invalidStyles.join(' ')}'. Expected a combination of 'italic', 'bold', 'underline' and 'strikethrough'.`, node);
+		}
+	}
+
+	private _reportNode(severity: ThemeDiagnosticSeverity, message: string, node: Json.Node): void {
+		this._report(severity, message, node.offset, node.length);
+	}
+
+	private _report(severity: ThemeDiagnosticSeverity, message: string, offset: number, length: number): void {
+		const lineStarts = this._getLineStarts();
+		let low = 0;
+		let high = lineStarts.length - 1;
+		while (low < high) {
+			const mid = (low + high + 1) >> 1;
+			if (lineStarts[mid] <= offset) {
+				low = mid;
+			} else {
+				high = mid - 1;
+			}
+		}
+		this.diagnostics.push({ severity, message, offset, length, line: low + 1, column: offset - lineStarts[low] + 1 });
+	}
+
+	private _getLineStarts(): number[] {
+		if (!this._lineStarts) {
+			this._lineStarts = [0];
+			const lineBreak = /\r\n|\r|\n/g;
+			let match: RegExpExecArray | null;
+			while ((match = lineBreak.exec(this._content))) {
+				this._lineStarts.push(match.index + match[0].length);
+			}
+		}
+		return this._lineStarts;
+	}
+}
+
+/**
+ * The key and value nodes of the properties of an object node, skipping properties without a value.
+ */
+function getProperties(node: Json.Node): [Json.Node, Json.Node][] {
+	const properties: [Json.Node, Json.Node][] = [];
+	for (const property of node.children!) {
+		const [key, value] = property.children!;
+		if (value) {
+			properties.push([key, value]);
+		}
+	}
+	return properties;
+}
@@ -0,0 +1,100 @@
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+import * as Json from './utils/json';
+import * as resources from './utils/resources';
+import { IExtensionManifest } from './extensions';
+import { ILogger } from './logger';
+import { IResourceLoader } from './resourceLoader';
+
+interface ILocalizedMessage {
+	message: string;
+	comment?: string[];
+}
+
+interface IMessages {
+	[key: string]: string | ILocalizedMessage;
+}
+
+const placeholderRegex = /^%([\w\d.-]+)%$/;
+
+/**
+ * Replaces the `%key%` placeholders of the manifest with the messages of the extension's
+ * `package.nls.<locale>.json`, falling back to its `package.nls.json`. Locales like `de-ch` fall
+ * back to `package.nls.de.json` first.
+ */
+export async function localizeManifest(manifest: IExtensionManifest, extensionLocation: monaco.Uri, resourceLoader: IResourceLoader, locale: string | undefined, logger: ILogger): Promise<void> {
+	if (!hasPlaceholders(manifest)) {
+		return;
+	}
+	const [messages, defaultMessages] = await Promise.all([
+		readLocalizedMessages(extensionLocation, resourceLoader, locale, logger),
+		readMessages(resources.joinPath(extensionLocation, 'package.nls.json'), resourceLoader, logger)
+	]);
+	if (!messages && !defaultMessages) {
+		logger.warn(`[${manifest.name}]: The manifest has placeholders, but no package.nls.json.`);
+		return;
+	}
+	replaceNLStrings(manifest, messages || {}, defaultMessages || {}, manifest, logger);
+}
+
+async function readLocalizedMessages(extensionLocation: monaco.Uri, resourceLoader: IResourceLoader, locale: string | undefined, logger: ILogger): Promise<IMessages | undefined> {
+	if (!locale) {
+		return undefined;
+	}
+	const segments = locale.toLowerCase().split('-');
+	for (let i = segments.length; i > 0; i--) {
+		const messages = await readMessages(resources.joinPath(extensionLocation, `package.nls.${segments.slice(0, i).join('-')}.json`), resourceLoader, logger);
+		if (messages) {
+			return messages;
+		}
+	}
+	return undefined;
+}
+
+async function readMessages(location: monaco.Uri, resourceLoader: IResourceLoader, logger: ILogger): Promise<IMessages | undefined> {
+	let content: string;
+	try {
+		content = await resourceLoader.readFile(location);
+	} catch (err) {
+		// most extensions are not localized to every locale
+		logger.trace(`No messages at ${location.toString(true)}.`);
+		return undefined;
+	}
+	const errors: Json.ParseError[] = [];
+	const messages = Json.parse(content, errors);
+	if (errors.length > 0 || Json.getNodeType(messages) !== 'object') {
+		logger.error(`Problems parsing messages file ${location.toString(true)}.`);
+		return undefined;
+	}
+	return messages;
+}
+
+function hasPlaceholders(value: any): boolean {
+	if (typeof value === 'string') {
+		return placeholderRegex.test(value);
+	}
+	if (value && typeof value === 'object') {
+		return Object.keys(value).some(key => hasPlaceholders(value[key]));
+	}
+	return false;
+}
+
+function replaceNLStrings(value: any, messages: IMessages, defaultMessages: IMessages, manifest: IExtensionManifest, logger: ILogger): void {
+	for (const key of Object.keys(value)) {
+		const child = value[key];
+		if (typeof child === 'string') {
+			const match = placeholderRegex.exec(child);
+			if (match) {
+				const message = messages[match[1]] ?? defaultMessages[match[1]];
+				const text = typeof message === 'string' ? message : message?.message;
+				if (typeof text === 'string') {
+					value[key] = text;
+				} else {
+					logger.warn(`[${manifest.name}]: Couldn't find message for key ${match[1]}.`);
+				}
+			}
+		} else if (child && typeof child === 'object') {
+			replaceNLStrings(child, messages, defaultMessages, manifest, logger);
+		}
+	}
+}
@@ -22,18 +22,27 @@ interface IKeyBinding {
 	win?: string;
 }
 
-interface ILanguage {
+export interface ILanguage {
 	id: string;
-	extensions: string[];
-	aliases: string[];
+	extensions?: string[];
+	filenames?: string[];
+	filenamePatterns?: string[];
+	firstLine?: string;
+	aliases?: string[];
+	mimetypes?: string[];
+	configuration?: string;
 }
 
 interface ISnippet {
 	language: string;
 }
 
-interface ITheme {
-	label: string;
+export interface ITheme {
+	id?: string;
+	label?: string;
+	description?: string;
+	uiTheme?: string;
+	path: string;
 }
 
 interface IColor {
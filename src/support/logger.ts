@@ -0,0 +1,30 @@
+/**
+ * Receives the messages of the service, e.g. grammars that fail to load or invalid contributions.
+ */
+export interface ILogger {
+	trace(message: string, ...args: any[]): void;
+	info(message: string, ...args: any[]): void;
+	warn(message: string, ...args: any[]): void;
+	error(message: string, ...args: any[]): void;
+}
+
+/**
+ * Default logger writing to the console. Trace messages are dropped.
+ */
+export class ConsoleLogger implements ILogger {
+
+	public trace(message: string, ...args: any[]): void {
+	}
+
+	public info(message: string, ...args: any[]): void {
+		console.log(message, ...args);
+	}
+
+	public warn(message: string, ...args: any[]): void {
+		console.warn(message, ...args);
+	}
+
+	public error(message: string, ...args: any[]): void {
+		console.error(message, ...args);
+	}
+}
@@ -0,0 +1,123 @@
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+import { Disposable, IDisposable, toDisposable } from './utils/lifecycle';
+import { ZipArchive } from './utils/zip';
+
+/**
+ * Reads the resources the service depends on: extension manifests, grammars,
+ * themes and the Oniguruma WASM binary.
+ */
+export interface IResourceLoader {
+	/**
+	 * Reads the resource at the given location as text.
+	 */
+	readFile(resource: monaco.Uri): Promise<string>;
+
+	/**
+	 * Reads the resource at the given location as binary data.
+	 */
+	readBinary(resource: monaco.Uri): Promise<ArrayBuffer>;
+
+	/**
+	 * Reads the resource at the given location as a `Response`, which allows the streaming
+	 * compilation of WASM binaries. Optional, `readBinary` is used if not implemented.
+	 */
+	readResponse?(resource: monaco.Uri): Promise<Response>;
+}
+
+/**
+ * Default resource loader based on `fetch`.
+ *
+ * Locations without a scheme (e.g. `/extensions/foo`) are parsed as `file` URIs by `monaco.Uri.parse`
+ * and are resolved against the current origin. All other locations are fetched as they are, so
+ * extensions can also be served from a CDN or another origin.
+ */
+export class FetchResourceLoader implements IResourceLoader {
+
+	constructor(private readonly _requestInit?: RequestInit) { }
+
+	public async readFile(resource: monaco.Uri): Promise<string> {
+		const response = await this.readResponse(resource);
+		return response.text();
+	}
+
+	public async readBinary(resource: monaco.Uri): Promise<ArrayBuffer> {
+		const response = await this.readResponse(resource);
+		return response.arrayBuffer();
+	}
+
+	public async readResponse(resource: monaco.Uri): Promise<Response> {
+		const response = await fetch(toFetchUrl(resource), this._requestInit);
+		if (!response.ok) {
+			throw new Error(`Unable to load ${resource.toString(true)}: ${response.status} ${response.statusText}`);
+		}
+		return response;
+	}
+}
+
+function toFetchUrl(resource: monaco.Uri): string {
+	if (resource.scheme === 'file' && !resource.authority) {
+		return resource.query ? `${resource.path}?${resource.query}` : resource.path;
+	}
+	return resource.toString(true);
+}
+
+/**
+ * Resource loader serving the files of added zip archives, e.g. `.vsix` extension packages, and
+ * delegating all other resources. A file in an archive is addressed by the archive location joined
+ * with the file path, e.g. `https://example.com/foo.vsix/extension/package.json`.
+ */
+export class ArchiveResourceLoader implements IResourceLoader {
+
+	private readonly _archives = new Map<string, { location: monaco.Uri; archive: ZipArchive }>();
+
+	constructor(private readonly _delegate: IResourceLoader) { }
+
+	/**
+	 * Serves the files of the archive below the given location until the result is disposed. An
+	 * archive that is already served at the location is kept.
+	 */
+	public addArchive(location: monaco.Uri, archive: ZipArchive): IDisposable {
+		const key = location.toString();
+		if (this._archives.has(key)) {
+			return Disposable.None;
+		}
+		this._archives.set(key, { location, archive });
+		return toDisposable(() => this._archives.delete(key));
+	}
+
+	public async readFile(resource: monaco.Uri): Promise<string> {
+		const content = this._readFromArchive(resource);
+		return content ? new TextDecoder().decode(content) : this._delegate.readFile(resource);
+	}
+
+	public async readBinary(resource: monaco.Uri): Promise<ArrayBuffer> {
+		const content = this._readFromArchive(resource);
+		return content ? content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) : this._delegate.readBinary(resource);
+	}
+
+	public async readResponse(resource: monaco.Uri): Promise<Response> {
+		const content = this._readFromArchive(resource);
+		if (content) {
+			return new Response(content);
+		}
+		return this._delegate.readResponse ? this._delegate.readResponse(resource) : new Response(await this._delegate.readBinary(resource));
+	}
+
+	private _readFromArchive(resource: monaco.Uri): Uint8Array | undefined {
+		for (const { location, archive } of this._archives.values()) {
+			if (location.scheme !== resource.scheme || location.authority !== resource.authority || location.query !== resource.query) {
+				continue;
+			}
+			const prefix = location.path.endsWith('/') ? location.path : location.path + '/';
+			if (resource.path.startsWith(prefix)) {
+				const fileName = resource.path.substring(prefix.length);
+				if (!archive.has(fileName)) {
+					throw new Error(`Unable to load ${resource.toString(true)}: the archive does not contain ${fileName}.`);
+				}
+				return archive.read(fileName);
+			}
+		}
+		return undefined;
+	}
+}
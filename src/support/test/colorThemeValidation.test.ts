@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import { isValidHexColor, IThemeDiagnostic, validateTheme } from '../colorThemeValidation';
+
+suite('validateTheme', () => {
+
+	function diagnostics(content: string): Pick<IThemeDiagnostic, 'severity' | 'line' | 'column'>[] {
+		return validateTheme(content).map(({ severity, line, column }) => ({ severity, line, column }));
+	}
+
+	test('accepts a valid theme', () => {
+		assert.deepStrictEqual(validateTheme(JSON.stringify({
+			name: 'Test',
+			include: './base.json',
+			colors: { 'editor.background': '#1e1e1e', 'editor.foreground': '#d4d4d4aa' },
+			tokenColors: [
+				{ settings: { foreground: '#d4d4d4' } },
+				{ scope: ['keyword', 'storage'], settings: { foreground: '#569cd6', fontStyle: 'bold italic' } },
+				{ name: 'Strings', scope: 'string', settings: { foreground: '#ce9178', fontStyle: '' } }
+			],
+			semanticTokenColors: {
+				'*.deprecated': { strikethrough: true },
+				'variable.readonly:javascript': '#4fc1ff',
+				'function': { foreground: '#dcdcaa', bold: false }
+			}
+		})), []);
+		assert.deepStrictEqual(validateTheme('{ "tokenColors": "./syntax.tmTheme" }'), []);
+	});
+
+	test('reports syntax errors with their position', () => {
+		const result = validateTheme('{\n\t"colors": {\n\t\t"editor.background": "#fff",,\n\t}\n}');
+		assert.ok(result.length > 0);
+		assert.ok(result.every(d => d.severity === 'error'));
+		assert.deepStrictEqual({ line: result[0].line, column: result[0].column }, { line: 3, column: 31 });
+	});
+
+	test('reports content that is not an object', () => {
+		assert.deepStrictEqual(diagnostics('[]'), [{ severity: 'error', line: 1, column: 1 }]);
+	});
+
+	test('reports invalid colors', () => {
+		const content = '{\n  "colors": {\n    "editor.background": "#12345",\n    "editor.foreground": "#ggg",\n    "editor.selectionBackground": null\n  }\n}';
+		assert.deepStrictEqual(diagnostics(content), [
+			{ severity: 'warning', line: 3, column: 26 },
+			{ severity: 'warning', line: 4, column: 26 }
+		]);
+	});
+
+	test('reports colors Monaco does not use', () => {
+		const result = validateTheme('{ "colors": { "activityBar.background": "#000000" } }');
+		assert.strictEqual(result.length, 1);
+		assert.strictEqual(result[0].severity, 'info');
+		assert.match(result[0].message, /activityBar\.background/);
+	});
+
+	test('reports invalid token color rules', () => {
+		const content = JSON.stringify({
+			tokenColors: [
+				'keyword',
+				{ scope: 1, settings: {} },
+				{ scope: 'string' },
+				{ scope: 'comment', settings: { foreground: 'red', fontStyle: 'bold oblique' } }
+			]
+		}, null, '\t');
+		const result = validateTheme(content);
+		assert.deepStrictEqual(result.map(d => d.severity), ['warning', 'warning', 'warning', 'warning', 'warning']);
+		assert.deepStrictEqual(result.map(d => content.substr(d.offset, d.length)), [
+			'"keyword"',
+			'1',
+			'{\n\t\t\t"scope": "string"\n\t\t}',
+			'"red"',
+			'"bold oblique"'
+		]);
+	});
+
+	test('reports a tokenColors value of the wrong type', () => {
+		assert.deepStrictEqual(diagnostics('{ "tokenColors": 1 }'), [{ severity: 'error', line: 1, column: 18 }]);
+	});
+
+	test('reports invalid semantic token colors', () => {
+		const content = '{ "semanticTokenColors": { "variable..readonly": "#fff", "function": { "bold": "yes" }, "type": 1 } }';
+		const result = validateTheme(content);
+		assert.deepStrictEqual(result.map(d => content.substr(d.offset, d.length)), ['"variable..readonly"', '"yes"', '1']);
+		assert.ok(result.every(d => d.severity === 'warning'));
+	});
+});
+
+suite('isValidHexColor', () => {
+
+	test('accepts the hex formats', () => {
+		for (const color of ['#fff', '#ffff', '#A0B1C2', '#a0b1c2d3']) {
+			assert.strictEqual(isValidHexColor(color), true, color);
+		}
+	});
+
+	test('rejects other colors', () => {
+		for (const color of ['fff', '#ff', '#fffff', '#ggg', 'red', 'rgb(0, 0, 0)', '#a0b1c2d3e']) {
+			assert.strictEqual(isValidHexColor(color), false, color);
+		}
+	});
+});
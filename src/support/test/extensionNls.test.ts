@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import { URI } from 'vscode-uri';
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+import { IExtensionManifest } from '../extensions';
+import { localizeManifest } from '../extensionNls';
+import { ILogger } from '../logger';
+import { IResourceLoader } from '../resourceLoader';
+
+suite('localizeManifest', () => {
+
+	const extensionLocation = URI.file('/extensions/test');
+
+	let files: { [path: string]: unknown };
+	let warnings: string[];
+	let errors: string[];
+
+	const resourceLoader: IResourceLoader = {
+		async readFile(resource: monaco.Uri): Promise<string> {
+			const content = files[resource.path];
+			if (content === undefined) {
+				throw new Error(`Not found: ${resource.path}`);
+			}
+			return typeof content === 'string' ? content : JSON.stringify(content);
+		},
+		async readBinary(): Promise<ArrayBuffer> {
+			throw new Error('Not supported');
+		}
+	};
+
+	const logger: ILogger = {
+		trace() { },
+		info() { },
+		warn: message => warnings.push(message),
+		error: message => errors.push(message)
+	};
+
+	function createManifest(): IExtensionManifest {
+		return {
+			name: 'test',
+			publisher: 'tester',
+			displayName: '%displayName%',
+			contributes: {
+				themes: [
+					{ label: '%theme.dark%', uiTheme: 'vs-dark', path: './themes/dark.json' },
+					{ label: '%theme.light%', uiTheme: 'vs', path: './themes/light.json' }
+				]
+			}
+		} as IExtensionManifest;
+	}
+
+	async function localize(locale: string | undefined): Promise<any> {
+		const manifest = createManifest();
+		await localizeManifest(manifest, extensionLocation, resourceLoader, locale, logger);
+		return manifest;
+	}
+
+	setup(() => {
+		files = {
+			'/extensions/test/package.nls.json': { 'displayName': 'Test Themes', 'theme.dark': 'Dark', 'theme.light': { message: 'Light', comment: ['The light theme'] } },
+			'/extensions/test/package.nls.de.json': { 'displayName': 'Testthemen', 'theme.dark': 'Dunkel' }
+		};
+		warnings = [];
+		errors = [];
+	});
+
+	test('uses the default messages without a locale', async () => {
+		const manifest = await localize(undefined);
+		assert.strictEqual(manifest.displayName, 'Test Themes');
+		assert.deepStrictEqual(manifest.contributes.themes.map((theme: any) => theme.label), ['Dark', 'Light']);
+		assert.deepStrictEqual([...warnings, ...errors], []);
+	});
+
+	test('uses the messages of the locale and falls back to the default messages', async () => {
+		const manifest = await localize('de');
+		assert.strictEqual(manifest.displayName, 'Testthemen');
+		assert.deepStrictEqual(manifest.contributes.themes.map((theme: any) => theme.label), ['Dunkel', 'Light']);
+	});
+
+	test('falls back to the language of regional locales', async () => {
+		files['/extensions/test/package.nls.de-at.json'] = { 'displayName': 'Österreichische Testthemen' };
+		assert.strictEqual((await localize('de-CH')).displayName, 'Testthemen');
+		assert.strictEqual((await localize('de-AT')).displayName, 'Österreichische Testthemen');
+	});
+
+	test('uses the default messages for locales without messages', async () => {
+		assert.strictEqual((await localize('fr')).displayName, 'Test Themes');
+	});
+
+	test('keeps placeholders without a message', async () => {
+		delete (<any>files['/extensions/test/package.nls.json'])['theme.light'];
+		const manifest = await localize(undefined);
+		assert.strictEqual(manifest.contributes.themes[1].label, '%theme.light%');
+		assert.strictEqual(warnings.length, 1);
+	});
+
+	test('leaves manifests without placeholders alone', async () => {
+		files = {};
+		const manifest = { name: 'plain', publisher: 'tester', displayName: '100% plain' } as IExtensionManifest;
+		await localizeManifest(manifest, extensionLocation, resourceLoader, 'de', logger);
+		assert.strictEqual(manifest.displayName, '100% plain');
+		assert.deepStrictEqual([...warnings, ...errors], []);
+	});
+
+	test('reports missing and invalid message files', async () => {
+		files = {};
+		assert.strictEqual((await localize(undefined)).displayName, '%displayName%');
+		assert.strictEqual(warnings.length, 1);
+
+		files = { '/extensions/test/package.nls.json': '{ "displayName": ' };
+		assert.strictEqual((await localize(undefined)).displayName, '%displayName%');
+		assert.strictEqual(errors.length, 1);
+	});
+});
@@ -16,6 +16,8 @@ type TokenClassificationString = string;
 const idPattern = '\\w+[-_\\w+]*';
 const typeAndModifierIdPattern = `^${idPattern}$`;
 
+const selectorPattern = `^(${idPattern}|\\*)(\\${CLASSIFIER_MODIFIER_SEPARATOR}${idPattern})*(${TOKEN_CLASSIFIER_LANGUAGE_SEPARATOR}${idPattern})?$`;
+
 interface TokenSelector {
 	match(type: string, modifiers: string[], language: string): number;
 	readonly id: string;
@@ -114,7 +116,7 @@ export namespace TokenStyle {
 	}
 }
 
-type ProbeScope = string[];
+export type ProbeScope = string[];
 
 
 interface TokenStyleDefaults {
@@ -170,7 +172,7 @@ export namespace SemanticTokenRule {
 /**
  * A TokenStyle Value is either a token style literal, or a TokenClassificationString
  */
-type TokenStyleValue = TokenStyle | TokenClassificationString;
+export type TokenStyleValue = TokenStyle | TokenClassificationString;
 
 interface ITokenClassificationRegistry {
 
@@ -386,9 +388,17 @@ class TokenClassificationRegistry implements ITokenClassificationRegistry {
 const CHAR_LANGUAGE = TOKEN_CLASSIFIER_LANGUAGE_SEPARATOR.charCodeAt(0);
 const CHAR_MODIFIER = CLASSIFIER_MODIFIER_SEPARATOR.charCodeAt(0);
 
-function parseClassifierString(s: string, defaultLanguage: string): { type: string; modifiers: string[]; language: string };
-function parseClassifierString(s: string, defaultLanguage?: string): { type: string; modifiers: string[]; language: string | undefined };
-function parseClassifierString(s: string, defaultLanguage: string | undefined): { type: string; modifiers: string[]; language: string | undefined } {
+/**
+ * Whether the string is a valid semantic token selector: `type(.modifier)*(:language)?`, the type
+ * can be `*`.
+ */
+export function isValidTokenSelector(selectorString: string): boolean {
+	return new RegExp(selectorPattern).test(selectorString);
+}
+
+export function parseClassifierString(s: string, defaultLanguage: string): { type: string; modifiers: string[]; language: string };
+export function parseClassifierString(s: string, defaultLanguage?: string): { type: string; modifiers: string[]; language: string | undefined };
+export function parseClassifierString(s: string, defaultLanguage: string | undefined): { type: string; modifiers: string[]; language: string | undefined } {
 	let k = s.length;
 	let language: string | undefined = defaultLanguage;
 	const modifiers = [];
@@ -79,7 +79,7 @@ export interface ParseError {
 	length: number;
 }
 
-const enum ParseErrorCode {
+export const enum ParseErrorCode {
 	InvalidSymbol = 1,
 	InvalidNumberFormat = 2,
 	PropertyNameExpected = 3,
@@ -98,9 +98,9 @@ const enum ParseErrorCode {
 	InvalidCharacter = 16
 }
 
-type NodeType = 'object' | 'array' | 'property' | 'string' | 'number' | 'boolean' | 'null';
+export type NodeType = 'object' | 'array' | 'property' | 'string' | 'number' | 'boolean' | 'null';
 
-interface Node {
+export interface Node {
 	readonly type: NodeType;
 	readonly value?: any;
 	readonly offset: number;
@@ -734,6 +734,82 @@ export function parse(text: string, errors: ParseError[] = [], options: ParseOpt
 	return currentParent[0];
 }
 
+/**
+ * Parses the given text and returns a tree representation the JSON content. On invalid input, the parser tries to be as fault tolerant as possible, but still return a result.
+ */
+export function parseTree(text: string, errors: ParseError[] = [], options: ParseOptions = ParseOptions.DEFAULT): Node | undefined {
+	let currentParent: NodeImpl = { type: 'array', offset: -1, length: -1, children: [], parent: undefined }; // artificial root
+
+	function ensurePropertyComplete(endOffset: number) {
+		if (currentParent.type === 'property') {
+			currentParent.length = endOffset - currentParent.offset;
+			currentParent = currentParent.parent!;
+		}
+	}
+
+	function onValue(valueNode: NodeImpl): NodeImpl {
+		currentParent.children!.push(valueNode);
+		return valueNode;
+	}
+
+	const visitor: JSONVisitor = {
+		onObjectBegin: (offset: number) => {
+			currentParent = onValue({ type: 'object', offset, length: -1, parent: currentParent, children: [] });
+		},
+		onObjectProperty: (name: string, offset: number, length: number) => {
+			currentParent = onValue({ type: 'property', offset, length: -1, parent: currentParent, children: [] });
+			currentParent.children!.push({ type: 'string', value: name, offset, length, parent: currentParent });
+		},
+		onObjectEnd: (offset: number, length: number) => {
+			ensurePropertyComplete(offset);
+			currentParent.length = offset + length - currentParent.offset;
+			currentParent = currentParent.parent!;
+			ensurePropertyComplete(offset + length);
+		},
+		onArrayBegin: (offset: number) => {
+			currentParent = onValue({ type: 'array', offset, length: -1, parent: currentParent, children: [] });
+		},
+		onArrayEnd: (offset: number, length: number) => {
+			currentParent.length = offset + length - currentParent.offset;
+			currentParent = currentParent.parent!;
+			ensurePropertyComplete(offset + length);
+		},
+		onLiteralValue: (value: any, offset: number, length: number) => {
+			onValue({ type: getNodeType(value), offset, length, parent: currentParent, value });
+			ensurePropertyComplete(offset + length);
+		},
+		onSeparator: (sep: string, offset: number) => {
+			if (currentParent.type === 'property') {
+				if (sep === ':') {
+					currentParent.colonOffset = offset;
+				} else if (sep === ',') {
+					ensurePropertyComplete(offset);
+				}
+			}
+		},
+		onError: (error: ParseErrorCode, offset: number, length: number) => {
+			errors.push({ error, offset, length });
+		}
+	};
+	visit(text, visitor, options);
+
+	const result = currentParent.children![0];
+	if (result) {
+		delete result.parent;
+	}
+	return result;
+}
+
+interface NodeImpl {
+	type: NodeType;
+	value?: any;
+	offset: number;
+	length: number;
+	colonOffset?: number;
+	parent?: NodeImpl;
+	children?: NodeImpl[];
+}
+
 /**
  * Parses the given text and invokes the visitor functions for each object, array and literal reached.
  */
@@ -995,3 +1071,25 @@ export function getNodeType(value: any): NodeType {
 		default: return 'null';
 	}
 }
+
+export function getParseErrorMessage(errorCode: ParseErrorCode): string {
+	switch (errorCode) {
+		case ParseErrorCode.InvalidSymbol: return 'Invalid symbol';
+		case ParseErrorCode.InvalidNumberFormat: return 'Invalid number format';
+		case ParseErrorCode.PropertyNameExpected: return 'Property name expected';
+		case ParseErrorCode.ValueExpected: return 'Value expected';
+		case ParseErrorCode.ColonExpected: return 'Colon expected';
+		case ParseErrorCode.CommaExpected: return 'Comma expected';
+		case ParseErrorCode.CloseBraceExpected: return 'Closing brace expected';
+		case ParseErrorCode.CloseBracketExpected: return 'Closing bracket expected';
+		case ParseErrorCode.EndOfFileExpected: return 'End of file expected';
+		case ParseErrorCode.InvalidCommentToken: return 'Invalid comment token';
+		case ParseErrorCode.UnexpectedEndOfComment: return 'Unexpected end of comment';
+		case ParseErrorCode.UnexpectedEndOfString: return 'Unexpected end of string';
+		case ParseErrorCode.UnexpectedEndOfNumber: return 'Unexpected end of number';
+		case ParseErrorCode.InvalidUnicode: return 'Invalid unicode sequence';
+		case ParseErrorCode.InvalidEscapeCharacter: return 'Invalid escape character';
+		case ParseErrorCode.InvalidCharacter: return 'Invalid character';
+		default: return 'Unknown error';
+	}
+}
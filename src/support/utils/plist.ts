@@ -0,0 +1,316 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CharCode } from './charCode';
+
+const enum State {
+	ROOT_STATE = 0,
+	DICT_STATE = 1,
+	ARR_STATE = 2
+}
+
+/**
+ * A very fast plist parser
+ */
+export function parse(content: string): any {
+	const len = content.length;
+
+	let pos = 0;
+
+	// Skip UTF8 BOM
+	if (len > 0 && content.charCodeAt(0) === CharCode.UTF8_BOM) {
+		pos = 1;
+	}
+
+	function skipWhitespace(): void {
+		while (pos < len) {
+			const chCode = content.charCodeAt(pos);
+			if (chCode !== CharCode.Space && chCode !== CharCode.Tab && chCode !== CharCode.CarriageReturn && chCode !== CharCode.LineFeed) {
+				break;
+			}
+			pos++;
+		}
+	}
+
+	function advanceIfStartsWith(str: string): boolean {
+		if (content.substr(pos, str.length) === str) {
+			pos += str.length;
+			return true;
+		}
+		return false;
+	}
+
+	function advanceUntil(str: string): void {
+		const nextOccurence = content.indexOf(str, pos);
+		if (nextOccurence !== -1) {
+			pos = nextOccurence + str.length;
+		} else {
+			// EOF
+			pos = len;
+		}
+	}
+
+	function captureUntil(str: string): string {
+		const nextOccurence = content.indexOf(str, pos);
+		if (nextOccurence !== -1) {
+			const r = content.substring(pos, nextOccurence);
+			pos = nextOccurence + str.length;
+			return r;
+		} else {
+			// EOF
+			const r = content.substr(pos);
+			pos = len;
+			return r;
+		}
+	}
+
+	let state = State.ROOT_STATE;
+
+	let cur: any = null;
+	const stateStack: State[] = [];
+	const objStack: any[] = [];
+	let curKey: string | null = null;
+
+	function pushState(newState: State, newCur: any): void {
+		stateStack.push(state);
+		objStack.push(cur);
+		state = newState;
+		cur = newCur;
+	}
+
+	function popState(): void {
+		if (stateStack.length === 0) {
+			return fail('illegal state stack');
+		}
+		state = stateStack.pop()!;
+		cur = objStack.pop();
+	}
+
+	function fail(msg: string): void {
+		throw new Error('Near offset ' + pos + ': ' + msg + ' ~~~' + content.substr(pos, 50) + '~~~');
+	}
+
+	function enterValue(value: any, newState: State): void {
+		if (state === State.DICT_STATE) {
+			if (curKey === null) {
+				return fail('missing <key>');
+			}
+			cur[curKey] = value;
+			curKey = null;
+			pushState(newState, value);
+		} else if (state === State.ARR_STATE) {
+			cur.push(value);
+			pushState(newState, value);
+		} else { // ROOT_STATE
+			cur = value;
+			pushState(newState, cur);
+		}
+	}
+
+	function leaveValue(expectedState: State, tagName: string): void {
+		if (state !== expectedState) {
+			return fail(`unexpected </${tagName}>`);
+		}
+		popState();
+	}
+
+	function acceptKey(val: string): void {
+		if (state === State.DICT_STATE) {
+			if (curKey !== null) {
+				return fail('too many <key>');
+			}
+			curKey = val;
+		} else {
+			return fail('unexpected <key>');
+		}
+	}
+
+	function acceptValue(val: any): void {
+		if (state === State.DICT_STATE) {
+			if (curKey === null) {
+				return fail('missing <key>');
+			}
+			cur[curKey] = val;
+			curKey = null;
+		} else if (state === State.ARR_STATE) {
+			cur.push(val);
+		} else { // ROOT_STATE
+			cur = val;
+		}
+	}
+
+	function acceptNumber(val: number, kind: string): void {
+		if (isNaN(val)) {
+			return fail(`cannot parse ${kind}`);
+		}
+		acceptValue(val);
+	}
+
+	function escapeVal(str: string): string {
+		return str.replace(/&#([0-9]+);/g, function (_: string, m0: string) {
+			return String.fromCodePoint(parseInt(m0, 10));
+		}).replace(/&#x([0-9a-f]+);/g, function (_: string, m0: string) {
+			return String.fromCodePoint(parseInt(m0, 16));
+		}).replace(/&amp;|&lt;|&gt;|&quot;|&apos;/g, function (_: string) {
+			switch (_) {
+				case '&amp;': return '&';
+				case '&lt;': return '<';
+				case '&gt;': return '>';
+				case '&quot;': return '"';
+				case '&apos;': return '\'';
+			}
+			return _;
+		});
+	}
+
+	interface IParsedTag {
+		name: string;
+		isClosed: boolean;
+	}
+
+	function parseOpenTag(): IParsedTag {
+		let r = captureUntil('>');
+		let isClosed = false;
+		if (r.charCodeAt(r.length - 1) === CharCode.Slash) {
+			isClosed = true;
+			r = r.substring(0, r.length - 1);
+		}
+
+		return {
+			name: r.trim(),
+			isClosed: isClosed
+		};
+	}
+
+	function parseTagValue(tag: IParsedTag): string {
+		if (tag.isClosed) {
+			return '';
+		}
+		const val = captureUntil('</');
+		advanceUntil('>');
+		return escapeVal(val);
+	}
+
+	while (pos < len) {
+		skipWhitespace();
+		if (pos >= len) {
+			break;
+		}
+
+		const chCode = content.charCodeAt(pos);
+		pos++;
+		if (chCode !== CharCode.LessThan) {
+			return fail('expected <');
+		}
+
+		if (pos >= len) {
+			return fail('unexpected end of input');
+		}
+
+		const peekChCode = content.charCodeAt(pos);
+
+		if (peekChCode === CharCode.QuestionMark) {
+			pos++;
+			advanceUntil('?>');
+			continue;
+		}
+
+		if (peekChCode === CharCode.ExclamationMark) {
+			pos++;
+
+			if (advanceIfStartsWith('--')) {
+				advanceUntil('-->');
+				continue;
+			}
+
+			advanceUntil('>');
+			continue;
+		}
+
+		if (peekChCode === CharCode.Slash) {
+			pos++;
+			skipWhitespace();
+
+			if (advanceIfStartsWith('plist')) {
+				advanceUntil('>');
+				continue;
+			}
+
+			if (advanceIfStartsWith('dict')) {
+				advanceUntil('>');
+				leaveValue(State.DICT_STATE, 'dict');
+				continue;
+			}
+
+			if (advanceIfStartsWith('array')) {
+				advanceUntil('>');
+				leaveValue(State.ARR_STATE, 'array');
+				continue;
+			}
+
+			return fail('unexpected closed tag');
+		}
+
+		const tag = parseOpenTag();
+
+		switch (tag.name) {
+			case 'dict':
+				enterValue({}, State.DICT_STATE);
+				if (tag.isClosed) {
+					leaveValue(State.DICT_STATE, 'dict');
+				}
+				continue;
+
+			case 'array':
+				enterValue([], State.ARR_STATE);
+				if (tag.isClosed) {
+					leaveValue(State.ARR_STATE, 'array');
+				}
+				continue;
+
+			case 'key':
+				acceptKey(parseTagValue(tag));
+				continue;
+
+			case 'string':
+				acceptValue(parseTagValue(tag));
+				continue;
+
+			case 'real':
+				acceptNumber(parseFloat(parseTagValue(tag)), 'float');
+				continue;
+
+			case 'integer':
+				acceptNumber(parseInt(parseTagValue(tag), 10), 'integer');
+				continue;
+
+			case 'date':
+				acceptValue(new Date(parseTagValue(tag)));
+				continue;
+
+			case 'data':
+				acceptValue(parseTagValue(tag));
+				continue;
+
+			case 'true':
+				parseTagValue(tag);
+				acceptValue(true);
+				continue;
+
+			case 'false':
+				parseTagValue(tag);
+				acceptValue(false);
+				continue;
+		}
+
+		if (/^plist/.test(tag.name)) {
+			continue;
+		}
+
+		return fail('unexpected opened tag ' + tag.name);
+	}
+
+	return cur;
+}
@@ -2,7 +2,7 @@
  *  Copyright (c) Microsoft Corporation. All rights reserved.
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
 
 import { CharCode } from './charCode';
 import * as paths from './path';
@@ -72,7 +72,12 @@ class ExtUri implements IExtUri {
 	// --- path math
 
 	joinPath(resource: monaco.Uri, ...pathFragment: string[]): monaco.Uri {
-		return monaco.Uri.joinPath(resource, ...pathFragment);
+		if (!resource.path) {
+			throw new Error(`[UriError]: cannot call joinPath on URI without path`);
+		}
+		return resource.with({
+			path: paths.posix.join(resource.path, ...pathFragment)
+		});
 	}
 
 	dirname(resource: monaco.Uri): monaco.Uri {
@@ -111,6 +116,7 @@ const extUri = new ExtUri(() => false);
  * better to use `IUriIdentityService` which exposes an `IExtUri`-instance which knows when path
  * casing matters.
  */
+export const isEqual = extUri.isEqual.bind(extUri);
 export const dirname = extUri.dirname.bind(extUri);
 export const joinPath = extUri.joinPath.bind(extUri);
 
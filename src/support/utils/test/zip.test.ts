@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import * as zlib from 'zlib';
+import { ZipArchive } from '../zip';
+
+interface ITestEntry {
+	name: string;
+	content: Buffer;
+	/**
+	 * The compressed content. Stored if not given.
+	 */
+	deflated?: Buffer;
+	flags?: number;
+}
+
+/**
+ * Writes a zip archive with the local file headers, the central directory and its end record.
+ * The CRC is not checked when reading and left 0.
+ */
+function createZip(entries: ITestEntry[]): Uint8Array {
+	const localParts: Buffer[] = [];
+	const centralParts: Buffer[] = [];
+	let offset = 0;
+	for (const entry of entries) {
+		const name = Buffer.from(entry.name);
+		const data = entry.deflated ?? entry.content;
+		const method = entry.deflated ? 8 : 0;
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(20, 4);
+		local.writeUInt16LE(entry.flags ?? 0, 6);
+		local.writeUInt16LE(method, 8);
+		local.writeUInt32LE(data.length, 18);
+		local.writeUInt32LE(entry.content.length, 22);
+		local.writeUInt16LE(name.length, 26);
+		localParts.push(local, name, data);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(20, 4);
+		central.writeUInt16LE(20, 6);
+		central.writeUInt16LE(entry.flags ?? 0, 8);
+		central.writeUInt16LE(method, 10);
+		central.writeUInt32LE(data.length, 20);
+		central.writeUInt32LE(entry.content.length, 24);
+		central.writeUInt16LE(name.length, 28);
+		central.writeUInt32LE(offset, 42);
+		centralParts.push(central, name);
+
+		offset += local.length + name.length + data.length;
+	}
+	const centralDirectory = Buffer.concat(centralParts);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(entries.length, 8);
+	end.writeUInt16LE(entries.length, 10);
+	end.writeUInt32LE(centralDirectory.length, 12);
+	end.writeUInt32LE(offset, 16);
+	return new Uint8Array(Buffer.concat([...localParts, centralDirectory, end]));
+}
+
+function pseudoRandomBytes(length: number): Buffer {
+	const result = Buffer.alloc(length);
+	let seed = 42;
+	for (let i = 0; i < length; i++) {
+		seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+		result[i] = seed >> 16;
+	}
+	return result;
+}
+
+suite('ZipArchive', () => {
+
+	const text = Buffer.from('{ "name": "test", "contributes": { "grammars": [] } }\n'.repeat(50));
+
+	function assertRead(entry: ITestEntry): void {
+		const archive = new ZipArchive(createZip([entry]));
+		assert.deepStrictEqual(Buffer.from(archive.read(entry.name)), entry.content);
+	}
+
+	test('reads stored entries', () => {
+		assertRead({ name: 'extension/package.json', content: text });
+	});
+
+	test('inflates blocks with fixed Huffman codes', () => {
+		assertRead({ name: 'a.json', content: text, deflated: zlib.deflateRawSync(text, { strategy: zlib.constants.Z_FIXED }) });
+	});
+
+	test('inflates blocks with dynamic Huffman codes', () => {
+		assertRead({ name: 'a.json', content: text, deflated: zlib.deflateRawSync(text) });
+	});
+
+	test('inflates stored blocks', () => {
+		assertRead({ name: 'a.json', content: text, deflated: zlib.deflateRawSync(text, { level: 0 }) });
+	});
+
+	test('inflates several blocks', () => {
+		const content = Buffer.concat([pseudoRandomBytes(70000), text, pseudoRandomBytes(70000), text]);
+		assertRead({ name: 'a.bin', content, deflated: zlib.deflateRawSync(content, { level: 9 }) });
+	});
+
+	test('inflates empty files', () => {
+		assertRead({ name: 'empty.txt', content: Buffer.alloc(0), deflated: zlib.deflateRawSync(Buffer.alloc(0)) });
+	});
+
+	test('lists files but not directories', () => {
+		const archive = new ZipArchive(createZip([
+			{ name: 'extension/', content: Buffer.alloc(0) },
+			{ name: 'extension/package.json', content: text },
+			{ name: 'extension/themes/dark.json', content: Buffer.from('{}'), deflated: zlib.deflateRawSync(Buffer.from('{}')) }
+		]));
+		assert.strictEqual(archive.has('extension/'), false);
+		assert.strictEqual(archive.has('extension/package.json'), true);
+		assert.strictEqual(archive.has('extension/themes/dark.json'), true);
+		assert.strictEqual(archive.has('extension/themes/light.json'), false);
+		assert.strictEqual(Buffer.from(archive.read('extension/themes/dark.json')).toString(), '{}');
+	});
+
+	test('throws for missing and encrypted files', () => {
+		const archive = new ZipArchive(createZip([{ name: 'secret.txt', content: text, flags: 1 }]));
+		assert.throws(() => archive.read('missing.txt'), /does not contain missing\.txt/);
+		assert.throws(() => archive.read('secret.txt'), /encrypted entries are not supported/);
+	});
+
+	test('throws for data that is not a zip archive', () => {
+		assert.throws(() => new ZipArchive(new Uint8Array(text)), /end of central directory not found/);
+	});
+
+	test('throws for corrupt compressed data', () => {
+		const deflated = Buffer.from([0xff, 0xff, 0xff, 0xff]);
+		const archive = new ZipArchive(createZip([{ name: 'a.json', content: text, deflated }]));
+		assert.throws(() => archive.read('a.json'));
+	});
+});
@@ -23,3 +23,18 @@ export function isBoolean(obj: unknown): obj is boolean {
 export function isUndefined(obj: unknown): obj is undefined {
 	return (typeof obj === 'undefined');
 }
+
+/**
+ * @returns whether the provided parameter is of type `object` but **not**
+ *	`null`, an `array`, a `regexp`, nor a `date`.
+ */
+export function isObject(obj: unknown): obj is Object {
+	// The method can't do a type cast since there are type (like strings) which
+	// are subclasses of any put not positvely matched by the function. Hence type
+	// narrowing results in wrong results.
+	return typeof obj === 'object'
+		&& obj !== null
+		&& !Array.isArray(obj)
+		&& !(obj instanceof RegExp)
+		&& !(obj instanceof Date);
+}
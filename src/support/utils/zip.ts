@@ -0,0 +1,341 @@
+const enum Signature {
+	LocalFileHeader = 0x04034b50,
+	CentralDirectoryHeader = 0x02014b50,
+	EndOfCentralDirectory = 0x06054b50
+}
+
+const enum CompressionMethod {
+	Stored = 0,
+	Deflated = 8
+}
+
+interface IZipEntry {
+	readonly compressionMethod: number;
+	readonly compressedSize: number;
+	readonly uncompressedSize: number;
+	readonly localHeaderOffset: number;
+	readonly encrypted: boolean;
+}
+
+/**
+ * Reads the files of a zip archive, e.g. a `.vsix` extension package. Supports stored and deflated
+ * entries, but no ZIP64 archives or encryption.
+ */
+export class ZipArchive {
+
+	private readonly _view: DataView;
+	private readonly _entries = new Map<string, IZipEntry>();
+
+	constructor(private readonly _data: Uint8Array) {
+		this._view = new DataView(_data.buffer, _data.byteOffset, _data.byteLength);
+		this._readCentralDirectory();
+	}
+
+	/**
+	 * Whether the archive contains the file, e.g. `extension/package.json`.
+	 */
+	public has(fileName: string): boolean {
+		return this._entries.has(fileName);
+	}
+
+	/**
+	 * The uncompressed content of the file. Throws if the archive does not contain it.
+	 */
+	public read(fileName: string): Uint8Array {
+		const entry = this._entries.get(fileName);
+		if (!entry) {
+			throw new Error(`The archive does not contain ${fileName}.`);
+		}
+		if (entry.encrypted) {
+			throw new Error(`Unable to read ${fileName}: encrypted entries are not supported.`);
+		}
+		const offset = entry.localHeaderOffset;
+		if (this._readUint32(offset) !== Signature.LocalFileHeader) {
+			throw new Error(`Unable to read ${fileName}: invalid local file header.`);
+		}
+		const dataOffset = offset + 30 + this._view.getUint16(offset + 26, true) + this._view.getUint16(offset + 28, true);
+		const data = this._data.subarray(dataOffset, dataOffset + entry.compressedSize);
+		switch (entry.compressionMethod) {
+			case CompressionMethod.Stored:
+				return data.slice();
+			case CompressionMethod.Deflated:
+				return inflate(data, entry.uncompressedSize);
+			default:
+				throw new Error(`Unable to read ${fileName}: compression method ${entry.compressionMethod} is not supported.`);
+		}
+	}
+
+	private _readCentralDirectory(): void {
+		const endOffset = this._findEndOfCentralDirectory();
+		const entryCount = this._view.getUint16(endOffset + 10, true);
+		let offset = this._readUint32(endOffset + 16);
+		if (offset === 0xFFFFFFFF) {
+			throw new Error('Invalid zip archive: ZIP64 archives are not supported.');
+		}
+		const decoder = new TextDecoder();
+		for (let i = 0; i < entryCount; i++) {
+			if (this._readUint32(offset) !== Signature.CentralDirectoryHeader) {
+				throw new Error('Invalid zip archive: corrupt central directory.');
+			}
+			const flags = this._view.getUint16(offset + 8, true);
+			const nameLength = this._view.getUint16(offset + 28, true);
+			const extraLength = this._view.getUint16(offset + 30, true);
+			const commentLength = this._view.getUint16(offset + 32, true);
+			const fileName = decoder.decode(this._data.subarray(offset + 46, offset + 46 + nameLength));
+			// directories have no content
+			if (!fileName.endsWith('/')) {
+				this._entries.set(fileName, {
+					compressionMethod: this._view.getUint16(offset + 10, true),
+					compressedSize: this._readUint32(offset + 20),
+					uncompressedSize: this._readUint32(offset + 24),
+					localHeaderOffset: this._readUint32(offset + 42),
+					encrypted: (flags & 1) !== 0
+				});
+			}
+			offset += 46 + nameLength + extraLength + commentLength;
+		}
+	}
+
+	private _findEndOfCentralDirectory(): number {
+		// the record is at the end, followed by a comment of at most 65535 bytes
+		const minOffset = Math.max(0, this._data.length - 22 - 0xFFFF);
+		for (let offset = this._data.length - 22; offset >= minOffset; offset--) {
+			if (this._readUint32(offset) === Signature.EndOfCentralDirectory) {
+				return offset;
+			}
+		}
+		throw new Error('Invalid zip archive: end of central directory not found.');
+	}
+
+	private _readUint32(offset: number): number {
+		if (offset < 0 || offset + 4 > this._data.length) {
+			throw new Error('Invalid zip archive: unexpected end of data.');
+		}
+		return this._view.getUint32(offset, true);
+	}
+}
+
+//#region Inflate (RFC 1951)
+
+interface IHuffmanTable {
+	/**
+	 * The number of codes of each length.
+	 */
+	readonly counts: Uint16Array;
+	/**
+	 * The symbols, ordered by code.
+	 */
+	readonly symbols: Uint16Array;
+}
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA_BITS = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA_BITS = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+let fixedTables: { literals: IHuffmanTable; distances: IHuffmanTable } | undefined;
+
+function getFixedTables(): { literals: IHuffmanTable; distances: IHuffmanTable } {
+	if (!fixedTables) {
+		const lengths = new Uint8Array(288 + 30);
+		lengths.fill(8, 0, 144);
+		lengths.fill(9, 144, 256);
+		lengths.fill(7, 256, 280);
+		lengths.fill(8, 280, 288);
+		lengths.fill(5, 288);
+		fixedTables = { literals: buildHuffmanTable(lengths.subarray(0, 288)), distances: buildHuffmanTable(lengths.subarray(288)) };
+	}
+	return fixedTables;
+}
+
+function buildHuffmanTable(lengths: Uint8Array): IHuffmanTable {
+	const counts = new Uint16Array(16);
+	const symbols = new Uint16Array(lengths.length);
+	for (let i = 0; i < lengths.length; i++) {
+		counts[lengths[i]]++;
+	}
+	counts[0] = 0;
+	const offsets = new Uint16Array(16);
+	for (let i = 1; i < 16; i++) {
+		offsets[i] = offsets[i - 1] + counts[i - 1];
+	}
+	for (let i = 0; i < lengths.length; i++) {
+		if (lengths[i]) {
+			symbols[offsets[lengths[i]]++] = i;
+		}
+	}
+	return { counts, symbols };
+}
+
+class BitReader {
+
+	private _offset = 0;
+	private _bitBuffer = 0;
+	private _bitCount = 0;
+
+	constructor(private readonly _data: Uint8Array) { }
+
+	public readBits(count: number): number {
+		while (this._bitCount < count) {
+			if (this._offset >= this._data.length) {
+				throw new Error('Invalid deflate data: unexpected end of data.');
+			}
+			this._bitBuffer |= this._data[this._offset++] << this._bitCount;
+			this._bitCount += 8;
+		}
+		const value = this._bitBuffer & ((1 << count) - 1);
+		this._bitBuffer >>>= count;
+		this._bitCount -= count;
+		return value;
+	}
+
+	public readSymbol(table: IHuffmanTable): number {
+		// canonical Huffman codes are stored starting with the most significant bit
+		let code = 0;
+		let first = 0;
+		let index = 0;
+		for (let length = 1; length < 16; length++) {
+			code |= this.readBits(1);
+			const count = table.counts[length];
+			if (code - first < count) {
+				return table.symbols[index + code - first];
+			}
+			index += count;
+			first = (first + count) << 1;
+			code <<= 1;
+		}
+		throw new Error('Invalid deflate data: invalid Huffman code.');
+	}
+
+	/**
+	 * Drops the remaining bits of the current byte and reads the following bytes.
+	 */
+	public readAlignedBytes(count: number): Uint8Array {
+		this._bitBuffer = 0;
+		this._bitCount = 0;
+		if (this._offset + count > this._data.length) {
+			throw new Error('Invalid deflate data: unexpected end of data.');
+		}
+		const bytes = this._data.subarray(this._offset, this._offset + count);
+		this._offset += count;
+		return bytes;
+	}
+}
+
+function inflate(data: Uint8Array, uncompressedSize: number): Uint8Array {
+	const reader = new BitReader(data);
+	const output = new Uint8Array(uncompressedSize);
+	let outputLength = 0;
+
+	let isFinalBlock = false;
+	while (!isFinalBlock) {
+		isFinalBlock = reader.readBits(1) === 1;
+		const blockType = reader.readBits(2);
+		if (blockType === 0) {
+			const header = reader.readAlignedBytes(4);
+			const length = header[0] | (header[1] << 8);
+			if ((length ^ (header[2] | (header[3] << 8))) !== 0xFFFF) {
+				throw new Error('Invalid deflate data: corrupt stored block.');
+			}
+			if (outputLength + length > output.length) {
+				throw new Error('Invalid deflate data: content exceeds the uncompressed size.');
+			}
+			output.set(reader.readAlignedBytes(length), outputLength);
+			outputLength += length;
+			continue;
+		}
+
+		let literals: IHuffmanTable;
+		let distances: IHuffmanTable;
+		if (blockType === 1) {
+			({ literals, distances } = getFixedTables());
+		} else if (blockType === 2) {
+			({ literals, distances } = readDynamicTables(reader));
+		} else {
+			throw new Error('Invalid deflate data: invalid block type.');
+		}
+
+		while (true) {
+			const symbol = reader.readSymbol(literals);
+			if (symbol < 256) {
+				if (outputLength >= output.length) {
+					throw new Error('Invalid deflate data: content exceeds the uncompressed size.');
+				}
+				output[outputLength++] = symbol;
+				continue;
+			}
+			if (symbol === 256) {
+				break;
+			}
+			const lengthIndex = symbol - 257;
+			if (lengthIndex >= LENGTH_BASE.length) {
+				throw new Error('Invalid deflate data: invalid length.');
+			}
+			const length = LENGTH_BASE[lengthIndex] + reader.readBits(LENGTH_EXTRA_BITS[lengthIndex]);
+			const distanceIndex = reader.readSymbol(distances);
+			if (distanceIndex >= DISTANCE_BASE.length) {
+				throw new Error('Invalid deflate data: invalid distance.');
+			}
+			const distance = DISTANCE_BASE[distanceIndex] + reader.readBits(DISTANCE_EXTRA_BITS[distanceIndex]);
+			if (distance > outputLength || outputLength + length > output.length) {
+				throw new Error('Invalid deflate data: invalid length or distance.');
+			}
+			// the copied range may overlap the output, so copy byte by byte
+			for (let i = 0; i < length; i++, outputLength++) {
+				output[outputLength] = output[outputLength - distance];
+			}
+		}
+	}
+
+	if (outputLength !== output.length) {
+		throw new Error('Invalid deflate data: content is shorter than the uncompressed size.');
+	}
+	return output;
+}
+
+function readDynamicTables(reader: BitReader): { literals: IHuffmanTable; distances: IHuffmanTable } {
+	const literalCount = reader.readBits(5) + 257;
+	const distanceCount = reader.readBits(5) + 1;
+	const codeLengthCount = reader.readBits(4) + 4;
+
+	const codeLengths = new Uint8Array(19);
+	for (let i = 0; i < codeLengthCount; i++) {
+		codeLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+	}
+	const codeLengthTable = buildHuffmanTable(codeLengths);
+
+	const lengths = new Uint8Array(literalCount + distanceCount);
+	for (let i = 0; i < lengths.length;) {
+		const symbol = reader.readSymbol(codeLengthTable);
+		if (symbol < 16) {
+			lengths[i++] = symbol;
+			continue;
+		}
+		let value = 0;
+		let repeat: number;
+		if (symbol === 16) {
+			if (i === 0) {
+				throw new Error('Invalid deflate data: repeated code length without a previous length.');
+			}
+			value = lengths[i - 1];
+			repeat = 3 + reader.readBits(2);
+		} else if (symbol === 17) {
+			repeat = 3 + reader.readBits(3);
+		} else {
+			repeat = 11 + reader.readBits(7);
+		}
+		if (i + repeat > lengths.length) {
+			throw new Error('Invalid deflate data: too many code lengths.');
+		}
+		lengths.fill(value, i, i + repeat);
+		i += repeat;
+	}
+
+	return {
+		literals: buildHuffmanTable(lengths.subarray(0, literalCount)),
+		distances: buildHuffmanTable(lengths.subarray(literalCount))
+	};
+}
+
+//#endregion
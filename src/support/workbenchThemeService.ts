@@ -11,8 +11,15 @@ export const VS_DARK_THEME = 'vs-dark';
 export const VS_HC_THEME = 'hc-black';
 export const VS_HC_LIGHT_THEME = 'hc-light';
 
+export const THEME_SCOPE_OPEN_PAREN = '[';
+export const THEME_SCOPE_CLOSE_PAREN = ']';
+export const THEME_SCOPE_WILDCARD = '*';
+
+export const themeScopeRegex = /\[(.+?)\]/g;
+
 interface IWorkbenchTheme {
 	readonly id: string;
+	readonly settingsId: string;
 	readonly label: string;
 	readonly description?: string;
 }
@@ -20,6 +27,11 @@ interface IWorkbenchTheme {
 export interface IWorkbenchColorTheme extends IWorkbenchTheme, IColorTheme {
 	readonly tokenColors: ITextMateThemingRule[];
 	get baseTheme(): string;
+
+	/**
+	 * All workbench colors defined by the theme, including customizations.
+	 */
+	getColors(): IColorMap;
 }
 
 export interface IColorMap {
@@ -32,7 +44,49 @@ export interface ITextMateThemingRule {
 	settings: ITokenColorizationSetting;
 }
 
-interface ITokenColorizationSetting {
+export interface IThemeScopedTokenColorCustomizations {
+	[groupId: string]: ITextMateThemingRule[] | ITokenColorizationSetting | ISemanticTokenColorCustomizationRules | string | undefined;
+	comments?: string | ITokenColorizationSetting;
+	strings?: string | ITokenColorizationSetting;
+	numbers?: string | ITokenColorizationSetting;
+	keywords?: string | ITokenColorizationSetting;
+	types?: string | ITokenColorizationSetting;
+	functions?: string | ITokenColorizationSetting;
+	variables?: string | ITokenColorizationSetting;
+	textMateRules?: ITextMateThemingRule[];
+	semanticTokenColors?: ISemanticTokenColorCustomizationRules;
+}
+
+export interface ITokenColorCustomizations {
+	[groupIdOrThemeScope: string]: IThemeScopedTokenColorCustomizations | ITextMateThemingRule[] | ITokenColorizationSetting | ISemanticTokenColorCustomizationRules | string | undefined;
+	comments?: string | ITokenColorizationSetting;
+	strings?: string | ITokenColorizationSetting;
+	numbers?: string | ITokenColorizationSetting;
+	keywords?: string | ITokenColorizationSetting;
+	types?: string | ITokenColorizationSetting;
+	functions?: string | ITokenColorizationSetting;
+	variables?: string | ITokenColorizationSetting;
+	textMateRules?: ITextMateThemingRule[];
+	semanticTokenColors?: ISemanticTokenColorCustomizationRules;
+}
+
+export interface ISemanticTokenColorCustomizationRules {
+	[selector: string]: string | ISemanticTokenColorizationSetting | undefined;
+}
+
+export interface IThemeScopedColorCustomizations {
+	[colorId: string]: string;
+}
+
+export interface IColorCustomizations {
+	[colorIdOrThemeScope: string]: IThemeScopedColorCustomizations | string;
+}
+
+export type IThemeScopedCustomizations = IThemeScopedColorCustomizations | IThemeScopedTokenColorCustomizations;
+
+export type IThemeScopableCustomizations = IColorCustomizations | ITokenColorCustomizations;
+
+export interface ITokenColorizationSetting {
 	foreground?: string;
 	background?: string;
 	fontStyle?: string; /* [italic|bold|underline|strikethrough] */
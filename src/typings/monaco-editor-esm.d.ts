@@ -0,0 +1,15 @@
+/**
+ * Monaco modules the TextMate worker uses, which are not part of the typed editor API.
+ */
+
+declare module 'monaco-editor/esm/vs/editor/editor.worker' {
+	import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+	export function initialize(foreignModule: (ctx: monaco.worker.IWorkerContext<any>, createData: any) => any): void;
+}
+
+declare module 'monaco-editor/esm/vs/base/common/uri' {
+	import type * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+
+	export const URI: typeof monaco.Uri;
+}